@@ -0,0 +1,390 @@
+/**
+ * CAIO Client Intelligence Platform - Clear Enriched Data
+ *
+ * Deletes (and optionally archives) the data the message pipeline produced for a set of
+ * channels / clients and a date range, so a backfill can be re-run for one client without
+ * wiping everything. Runs as a dry run unless --execute is given.
+ *
+ * TABLES CLEARED (children before parents, in one write transaction):
+ * - csm_response_analytics: Responses in range, and responses to questions / sentiment being cleared
+ * - topissuescomparison-job: Issue instances in range, and instances of questions being cleared
+ * - looms, outbound_links: Links in range (links outside it only lose their question / issue reference)
+ * - customer_sentiment, questions: Rows in range (with the questions' question_status_history, sla_events and question_escalations)
+ * - top_issues: Recounted from their remaining instances; topics left without instances are deleted
+ * - daily_analytics_summary: Days in range
+ * - risk_radar: Only without a date range (it is a per-channel snapshot, rebuilt on the next message)
+ *
+ * So the backfill processes the messages again, the pipeline bookkeeping is cleared as well:
+ * processed_messages (ledger) entries and finished jobs of those messages, and the channels'
+ * backfill_checkpoints. message_edits and conversations keep their rows without the question link.
+ *
+ * Usage:
+ *   npm run clear:data -- --client acme                          Dry run: row counts for one client
+ *   npm run clear:data -- --channel 123 --channel 456            Scope by channel id (repeatable)
+ *   npm run clear:data -- --client acme --from 2025-01-01 --to 2025-01-31
+ *   npm run clear:data -- --client acme --execute                Delete
+ *   npm run clear:data -- --client acme --execute --archive      Write the deleted rows to archives/ first
+ *   npm run clear:data -- --all --execute                        Everything (no scope)
+ *
+ * Options:
+ * - --channel <id>: Client channel id (repeatable)
+ * - --client <name>: Client name as stored in clients.client_name, case-insensitive (repeatable)
+ * - --from / --to <YYYY-MM-DD>: Date range, inclusive, UTC (message dates, as in daily summaries)
+ * - --all: Clear every channel (required when no channel or client is given)
+ * - --execute: Apply the changes (default: dry run)
+ * - --archive: Save every deleted row as NDJSON under --archive-dir before deleting
+ * - --archive-dir <dir>: Archive location (default: archives/clear-<timestamp>)
+ */
+
+import 'dotenv/config';
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { tursoClient } from './db';
+
+// ============================================================================
+// OPTIONS
+// ============================================================================
+
+const { values: options } = parseArgs({
+    options: {
+        channel: { type: 'string', multiple: true, default: [] },
+        client: { type: 'string', multiple: true, default: [] },
+        from: { type: 'string' },
+        to: { type: 'string' },
+        all: { type: 'boolean', default: false },
+        execute: { type: 'boolean', default: false },
+        archive: { type: 'boolean', default: false },
+        'archive-dir': { type: 'string' },
+    },
+});
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SqlPart {
+    sql: string;
+    args: any[];
+}
+
+/**
+ * One statement of the reset: deletes rows, clears references to deleted rows,
+ * or recounts top issues
+ */
+interface ClearStep {
+    table: string;
+    action: 'delete' | 'detach' | 'recount';
+    set?: string;
+    where: SqlPart;
+}
+
+interface Scope {
+    channelIds: string[] | null; // null = every channel
+    from: string | null; // YYYY-MM-DD
+    to: string | null;
+}
+
+// ============================================================================
+// SCOPE
+// ============================================================================
+
+/**
+ * Channel ids named directly or through their client name
+ */
+async function resolveChannelIds(): Promise<string[] | null> {
+    if (options.all) return null;
+
+    const channelIds = new Set(options.channel);
+    for (const clientName of options.client) {
+        const result = await tursoClient.execute({
+            sql: `SELECT channel_id FROM clients WHERE lower(client_name) = lower(?)`,
+            args: [clientName]
+        });
+        if (result.rows.length === 0) {
+            throw new Error(`No client named "${clientName}"`);
+        }
+        for (const row of result.rows) channelIds.add(String(row.channel_id));
+    }
+
+    return [...channelIds];
+}
+
+function unixStartOfDay(date: string) {
+    return Math.floor(Date.parse(`${date}T00:00:00Z`) / 1000);
+}
+
+/**
+ * WHERE clause for a table's channel column and its unix-seconds or YYYY-MM-DD time column
+ */
+function scopeWhere(scope: Scope, timeColumn: string | null, timeType: 'unix' | 'date' = 'unix'): SqlPart {
+    const conditions: string[] = [];
+    const args: any[] = [];
+
+    if (scope.channelIds) {
+        conditions.push(`channel_id IN (${scope.channelIds.map(() => '?').join(',')})`);
+        args.push(...scope.channelIds);
+    }
+
+    if (timeColumn && scope.from) {
+        conditions.push(`${timeColumn} >= ?`);
+        args.push(timeType === 'date' ? scope.from : unixStartOfDay(scope.from));
+    }
+    if (timeColumn && scope.to) {
+        // Inclusive: everything before the start of the next day
+        conditions.push(timeType === 'date' ? `${timeColumn} <= ?` : `${timeColumn} < ?`);
+        args.push(timeType === 'date' ? scope.to : unixStartOfDay(scope.to) + 24 * 60 * 60);
+    }
+
+    return { sql: conditions.length > 0 ? conditions.join(' AND ') : '1 = 1', args };
+}
+
+/**
+ * Column names of a table - older databases predate some of the columns in db/schema.ts
+ */
+async function tableColumns(table: string): Promise<Set<string>> {
+    const result = await tursoClient.execute(`PRAGMA table_info(${quote(table)})`);
+    return new Set(result.rows.map((row: any) => String(row.name)));
+}
+
+function idList(ids: number[]): SqlPart {
+    return { sql: `(${ids.map(() => '?').join(',')})`, args: ids };
+}
+
+// ============================================================================
+// PLAN
+// ============================================================================
+
+const ISSUE_INSTANCES = '`topissuescomparison-job`';
+
+/**
+ * Build the reset statements in foreign-key order (children first)
+ */
+async function planSteps(scope: Scope): Promise<ClearStep[]> {
+    const dated = Boolean(scope.from || scope.to);
+
+    const questionScope = scopeWhere(scope, 'created_at');
+    const sentimentScope = scopeWhere(scope, 'message_timestamp');
+    const ledgerScope = scopeWhere(scope, 'message_timestamp');
+    const loomScope = scopeWhere(scope, 'sent_at');
+    const linkScope = scopeWhere(scope, 'extracted_at');
+
+    const questionIds: SqlPart = { sql: `(SELECT id FROM questions WHERE ${questionScope.sql})`, args: questionScope.args };
+    const sentimentIds: SqlPart = { sql: `(SELECT id FROM customer_sentiment WHERE ${sentimentScope.sql})`, args: sentimentScope.args };
+
+    const responseScope = scopeWhere(scope, 'query_timestamp');
+    const responseWhere: SqlPart = {
+        sql: `(${responseScope.sql}) OR query_id IN ${questionIds.sql}`,
+        args: [...responseScope.args, ...questionIds.args],
+    };
+    if ((await tableColumns('csm_response_analytics')).has('sentiment_message_id')) {
+        responseWhere.sql += ` OR sentiment_message_id IN ${sentimentIds.sql}`;
+        responseWhere.args.push(...sentimentIds.args);
+    }
+
+    const instanceScope = scopeWhere(scope, 'message_timestamp');
+    const instanceWhere: SqlPart = {
+        sql: `(${instanceScope.sql}) OR question_id IN ${questionIds.sql}`,
+        args: [...instanceScope.args, ...questionIds.args],
+    };
+
+    // Topics losing instances are known before anything is deleted
+    const affectedIssues = await tursoClient.execute({
+        sql: `SELECT DISTINCT issue_id FROM ${ISSUE_INSTANCES} WHERE ${instanceWhere.sql}`,
+        args: instanceWhere.args
+    });
+    const affectedIssueIds = affectedIssues.rows.map((row: any) => Number(row.issue_id));
+
+    let orphanedIssueIds: number[] = [];
+    if (affectedIssueIds.length > 0) {
+        const affected = idList(affectedIssueIds);
+        const orphaned = await tursoClient.execute({
+            sql: `SELECT id FROM top_issues WHERE id IN ${affected.sql} AND NOT EXISTS (
+                    SELECT 1 FROM ${ISSUE_INSTANCES} i WHERE i.issue_id = top_issues.id AND NOT COALESCE(${instanceWhere.sql}, 0)
+                  )`,
+            args: [...affected.args, ...instanceWhere.args]
+        });
+        orphanedIssueIds = orphaned.rows.map((row: any) => Number(row.id));
+    }
+    const recountedIssueIds = affectedIssueIds.filter(id => !orphanedIssueIds.includes(id));
+
+    const steps: ClearStep[] = [
+        { table: 'csm_response_analytics', action: 'delete', where: responseWhere },
+        { table: 'topissuescomparison-job', action: 'delete', where: instanceWhere },
+    ];
+
+    // Links are team messages: out-of-range links stay, minus their reference to deleted rows
+    for (const [table, linkWhere] of [['looms', loomScope], ['outbound_links', linkScope]] as const) {
+        steps.push({ table, action: 'delete', where: linkWhere });
+        steps.push({
+            table,
+            action: 'detach',
+            set: 'question_id = NULL',
+            where: { sql: `question_id IN ${questionIds.sql} AND NOT (${linkWhere.sql})`, args: [...questionIds.args, ...linkWhere.args] },
+        });
+        if (orphanedIssueIds.length > 0 && (await tableColumns(table)).has('issue_id')) {
+            const orphaned = idList(orphanedIssueIds);
+            steps.push({
+                table,
+                action: 'detach',
+                set: 'issue_id = NULL',
+                where: { sql: `issue_id IN ${orphaned.sql} AND NOT (${linkWhere.sql})`, args: [...orphaned.args, ...linkWhere.args] },
+            });
+        }
+    }
+
+    for (const table of ['message_edits', 'conversations']) {
+        steps.push({ table, action: 'detach', set: 'question_id = NULL', where: { sql: `question_id IN ${questionIds.sql}`, args: questionIds.args } });
+    }
+
+    // Pipeline bookkeeping, so the fetcher and the listener process these messages again
+    steps.push({
+        table: 'jobs',
+        action: 'delete',
+        where: {
+            sql: `status IN ('completed', 'dead') AND dedupe_key IN (SELECT message_id FROM processed_messages WHERE ${ledgerScope.sql})`,
+            args: ledgerScope.args,
+        },
+    });
+    steps.push({ table: 'processed_messages', action: 'delete', where: ledgerScope });
+    steps.push({
+        table: 'processed_messages',
+        action: 'detach',
+        set: 'question_id = NULL',
+        where: { sql: `question_id IN ${questionIds.sql} AND NOT (${ledgerScope.sql})`, args: [...questionIds.args, ...ledgerScope.args] },
+    });
+
+    steps.push({ table: 'customer_sentiment', action: 'delete', where: sentimentScope });
+    steps.push({ table: 'question_status_history', action: 'delete', where: { sql: `question_id IN ${questionIds.sql}`, args: questionIds.args } });
+    steps.push({ table: 'sla_events', action: 'delete', where: { sql: `question_id IN ${questionIds.sql}`, args: questionIds.args } });
+    steps.push({ table: 'question_escalations', action: 'delete', where: { sql: `question_id IN ${questionIds.sql}`, args: questionIds.args } });
+    steps.push({ table: 'questions', action: 'delete', where: questionScope });
+
+    if (recountedIssueIds.length > 0) {
+        const recounted = idList(recountedIssueIds);
+        steps.push({
+            table: 'top_issues',
+            action: 'recount',
+            set: `occurrence_count = (SELECT COUNT(*) FROM ${ISSUE_INSTANCES} i WHERE i.issue_id = top_issues.id),
+                  affected_channels = (SELECT json_group_array(channel_id) FROM (SELECT DISTINCT channel_id FROM ${ISSUE_INSTANCES} i WHERE i.issue_id = top_issues.id)),
+                  unique_clients_count = (SELECT COUNT(DISTINCT channel_id) FROM ${ISSUE_INSTANCES} i WHERE i.issue_id = top_issues.id),
+                  updated_at = unixepoch()`,
+            where: { sql: `id IN ${recounted.sql}`, args: recounted.args },
+        });
+    }
+    if (orphanedIssueIds.length > 0) {
+        steps.push({ table: 'top_issues', action: 'delete', where: { sql: `id IN ${idList(orphanedIssueIds).sql}`, args: orphanedIssueIds } });
+    }
+
+    steps.push({ table: 'daily_analytics_summary', action: 'delete', where: scopeWhere(scope, 'date', 'date') });
+    if (!dated) {
+        steps.push({ table: 'risk_radar', action: 'delete', where: scopeWhere(scope, null) });
+    }
+    steps.push({ table: 'backfill_checkpoints', action: 'delete', where: scopeWhere(scope, null) });
+
+    return steps;
+}
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+function quote(table: string) {
+    return `"${table}"`;
+}
+
+async function countRows(step: ClearStep) {
+    const result = await tursoClient.execute({
+        sql: `SELECT COUNT(*) as count FROM ${quote(step.table)} WHERE ${step.where.sql}`,
+        args: step.where.args
+    });
+    return Number(result.rows[0].count);
+}
+
+/**
+ * Write the rows each delete step removes to <dir>/<table>.ndjson
+ */
+async function archiveRows(steps: ClearStep[], dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+
+    for (const step of steps.filter(s => s.action === 'delete')) {
+        const result = await tursoClient.execute({
+            sql: `SELECT * FROM ${quote(step.table)} WHERE ${step.where.sql}`,
+            args: step.where.args
+        });
+        if (result.rows.length === 0) continue;
+
+        const lines = result.rows.map((row: any) =>
+            JSON.stringify(Object.fromEntries(result.columns.map(column => {
+                const value = row[column];
+                // Embeddings are stored as blobs
+                return [column, value instanceof ArrayBuffer ? Buffer.from(value).toString('base64') : typeof value === 'bigint' ? value.toString() : value];
+            })))
+        );
+        fs.appendFileSync(path.join(dir, `${step.table}.ndjson`), lines.join('\n') + '\n');
+    }
+}
+
+function toStatement(step: ClearStep) {
+    const sql = step.action === 'delete'
+        ? `DELETE FROM ${quote(step.table)} WHERE ${step.where.sql}`
+        : `UPDATE ${quote(step.table)} SET ${step.set} WHERE ${step.where.sql}`;
+    return { sql, args: step.where.args };
+}
+
+function describeScope(scope: Scope) {
+    const channels = scope.channelIds ? `channels ${scope.channelIds.join(', ')}` : 'all channels';
+    const range = scope.from || scope.to ? `, ${scope.from ?? 'start'} to ${scope.to ?? 'now'}` : '';
+    return channels + range;
+}
+
+async function main() {
+    for (const [name, value] of [['from', options.from], ['to', options.to]]) {
+        if (value && !DATE_REGEX.test(value)) throw new Error(`--${name} must be a YYYY-MM-DD date`);
+    }
+    if (!options.all && options.channel.length === 0 && options.client.length === 0) {
+        throw new Error('Give --channel and/or --client, or --all to clear every channel');
+    }
+
+    const scope: Scope = {
+        channelIds: await resolveChannelIds(),
+        from: options.from ?? null,
+        to: options.to ?? null,
+    };
+
+    const steps = await planSteps(scope);
+
+    console.log(`${options.execute ? 'Clearing' : 'Dry run for'} ${describeScope(scope)}\n`);
+    for (const step of steps) {
+        const count = await countRows(step);
+        const detail = step.set && step.action === 'detach' ? ` (${step.set.split(' ')[0]})` : '';
+        console.log(`${step.table.padEnd(26)} ${step.action.padEnd(8)} ${String(count).padStart(7)}${detail}`);
+    }
+    if (scope.from || scope.to) {
+        console.log(`${'risk_radar'.padEnd(26)} kept     (date range given - rebuilt on the next message)`);
+    }
+
+    if (!options.execute) {
+        console.log('\nNothing was changed. Re-run with --execute to apply.');
+        return;
+    }
+
+    if (options.archive) {
+        const dir = options['archive-dir'] || path.join('archives', `clear-${new Date().toISOString().replace(/[:.]/g, '-')}`);
+        await archiveRows(steps, dir);
+        console.log(`\nArchived deleted rows to ${dir}`);
+    }
+
+    // All or nothing - a failure leaves the data untouched
+    await tursoClient.batch(steps.map(toStatement), 'write');
+    console.log('\nDone.');
+}
+
+main()
+    .catch(error => {
+        console.error(`❌ ${error.message}`);
+        process.exitCode = 1;
+    })
+    .finally(() => tursoClient.close());
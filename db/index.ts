@@ -12,6 +12,8 @@
  * const allClients = await db.select().from(clients);
  */
 
+import os from 'os';
+import path from 'path';
 import { createClient } from '@libsql/client';
 import { drizzle, LibSQLDatabase } from 'drizzle-orm/libsql';
 import * as schema from './schema';
@@ -23,12 +25,16 @@ import * as schema from './schema';
 /**
  * Create Turso/libSQL client
  * Connects to remote Turso database or local SQLite
+ * Replays (PIPELINE_MODE=replay) never touch Turso: they use REPLAY_DATABASE_URL or a fresh temp file
  */
 function initializeTursoClient() {
-  const dbUrl = process.env.TURSO_DATABASE_URL;
-  const authToken = process.env.TURSO_AUTH_TOKEN;
+  const dbUrl = process.env.PIPELINE_MODE === 'replay'
+    ? process.env.REPLAY_DATABASE_URL || `file:${path.join(os.tmpdir(), `caio-replay-${Date.now()}.db`)}`
+    : process.env.TURSO_DATABASE_URL;
+  const authToken = process.env.PIPELINE_MODE === 'replay' ? undefined : process.env.TURSO_AUTH_TOKEN;
 
-  if (!dbUrl || !authToken) {
+  // Local SQLite files need no token
+  if (!dbUrl || (!authToken && !dbUrl.startsWith('file:'))) {
     throw new Error(
       'Missing required environment variables: TURSO_DATABASE_URL and/or TURSO_AUTH_TOKEN'
     );
@@ -112,6 +118,16 @@ export async function verifySchema() {
     'bug_reports',
     'bug_comments',
     'feature_requests',
+    'message_edits',
+    'conversations',
+    'channel_checkpoints',
+    'processed_messages',
+    'team_roster_history',
+    'jobs',
+    'backfill_checkpoints',
+    'question_status_history',
+    'sla_events',
+    'question_escalations',
   ];
 
   try {
@@ -157,7 +173,8 @@ export async function closeDb() {
 // HELPER FUNCTIONS FOR COMMON QUERIES
 // ============================================================================
 
-import { eq, desc, and, gte, lte, inArray } from 'drizzle-orm';
+import { eq, desc, and, gte, lte, inArray, isNull } from 'drizzle-orm';
+import { UNRESOLVED_STATUSES } from '../lib/question-lifecycle';
 
 /**
  * Get active clients with health status
@@ -176,12 +193,13 @@ export async function getActiveClientsWithHealth() {
 
 /**
  * Get unresolved questions by urgency
+ * Every lifecycle status still waiting on the team counts, as does the legacy 'pending'
  */
 export async function getUnresolvedQuestionsByUrgency() {
   return db
     .select()
     .from(schema.questions)
-    .where(eq(schema.questions.status, 'open'))
+    .where(and(inArray(schema.questions.status, [...UNRESOLVED_STATUSES, 'pending']), isNull(schema.questions.deleted_at)))
     .orderBy(desc(schema.questions.urgency), desc(schema.questions.created_at));
 }
 
@@ -0,0 +1,23 @@
+-- Add edit history for client messages
+-- Previous versions are kept when an edited message is re-triaged
+-- Generated: 2026-10-19T09:00:00.000Z
+
+CREATE TABLE IF NOT EXISTS message_edits (
+  "id" INTEGER PRIMARY KEY AUTOINCREMENT,
+  "channel_id" TEXT NOT NULL,
+  "message_id" TEXT NOT NULL,
+  "question_id" INTEGER NULL,
+  "previous_content" TEXT NULL,
+  "new_content" TEXT NOT NULL,
+  "author_id" TEXT NULL,
+  "author_username" TEXT NULL,
+  "discord_msg_link" TEXT NULL,
+  "edited_at" INTEGER NOT NULL,
+  "created_at" INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY ("channel_id") REFERENCES clients("channel_id"),
+  FOREIGN KEY ("question_id") REFERENCES questions("id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_message_edits_message" ON message_edits("message_id");
+CREATE INDEX IF NOT EXISTS "idx_message_edits_channel_edited" ON message_edits("channel_id", "edited_at");
+CREATE INDEX IF NOT EXISTS "idx_message_edits_question" ON message_edits("question_id");
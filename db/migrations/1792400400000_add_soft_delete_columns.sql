@@ -0,0 +1,10 @@
+-- Soft-delete support for deleted Discord messages
+-- Rows are kept for auditing but excluded from open-question, risk and summary queries
+-- Generated: 2026-10-19T10:00:00.000Z
+
+ALTER TABLE questions ADD COLUMN "deleted_at" INTEGER NULL;
+ALTER TABLE customer_sentiment ADD COLUMN "deleted_at" INTEGER NULL;
+ALTER TABLE `topissuescomparison-job` ADD COLUMN "deleted_at" INTEGER NULL;
+
+CREATE INDEX IF NOT EXISTS "idx_questions_deleted_at" ON questions("deleted_at");
+CREATE INDEX IF NOT EXISTS "idx_sentiment_deleted_at" ON customer_sentiment("deleted_at");
@@ -0,0 +1,23 @@
+-- Track threads and forum posts inside client channels
+-- Thread messages are attributed to the parent channel and linked to the question that started them
+-- Generated: 2026-10-19T11:00:00.000Z
+
+CREATE TABLE IF NOT EXISTS conversations (
+  "id" INTEGER PRIMARY KEY AUTOINCREMENT,
+  "thread_id" TEXT NOT NULL UNIQUE,
+  "channel_id" TEXT NOT NULL,
+  "question_id" INTEGER NULL,
+  "starter_message_id" TEXT NULL,
+  "thread_name" TEXT NULL,
+  "thread_type" TEXT NOT NULL,
+  "owner_id" TEXT NULL,
+  "message_count" INTEGER NULL DEFAULT 0,
+  "last_message_at" INTEGER NULL,
+  "created_at" INTEGER NOT NULL DEFAULT (unixepoch()),
+  "updated_at" INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY ("channel_id") REFERENCES clients("channel_id"),
+  FOREIGN KEY ("question_id") REFERENCES questions("id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_conversations_channel" ON conversations("channel_id");
+CREATE INDEX IF NOT EXISTS "idx_conversations_question" ON conversations("question_id");
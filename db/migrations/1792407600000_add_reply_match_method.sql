@@ -0,0 +1,8 @@
+-- Record how team replies were matched to questions
+-- Values: reply_reference|message_link|thread|single_open|general_keyword|ai|ai_fallback
+-- Generated: 2026-10-19T12:00:00.000Z
+
+ALTER TABLE questions ADD COLUMN "match_method" TEXT NULL;
+ALTER TABLE csm_response_analytics ADD COLUMN "match_method" TEXT NULL;
+
+CREATE INDEX IF NOT EXISTS "idx_csm_response_match_method" ON csm_response_analytics("match_method");
@@ -0,0 +1,14 @@
+-- Track the last processed message per Discord channel (high-water mark)
+-- On startup and after a reconnect the listener backfills everything newer than the mark
+-- Generated: 2026-10-19T13:00:00.000Z
+
+CREATE TABLE IF NOT EXISTS channel_checkpoints (
+  "discord_channel_id" TEXT PRIMARY KEY,
+  "channel_id" TEXT NOT NULL,
+  "last_message_id" TEXT NOT NULL,
+  "last_message_at" INTEGER NOT NULL,
+  "updated_at" INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY ("channel_id") REFERENCES clients("channel_id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_channel_checkpoints_channel" ON channel_checkpoints("channel_id");
@@ -0,0 +1,22 @@
+-- Durable ledger of messages processed by the live listener
+-- Replaces the in-memory processedMessageIds set; completed_stages lets a crashed message resume
+-- Generated: 2026-10-19T14:00:00.000Z
+
+CREATE TABLE IF NOT EXISTS processed_messages (
+  "message_id" TEXT PRIMARY KEY,
+  "channel_id" TEXT NOT NULL,
+  "discord_channel_id" TEXT NOT NULL,
+  "author_id" TEXT NULL,
+  "message_timestamp" INTEGER NOT NULL,
+  "completed_stages" TEXT NOT NULL DEFAULT '[]',
+  "question_id" INTEGER NULL,
+  "status" TEXT NOT NULL DEFAULT 'processing',
+  "attempts" INTEGER NOT NULL DEFAULT 1,
+  "first_seen_at" INTEGER NOT NULL DEFAULT (unixepoch()),
+  "completed_at" INTEGER NULL,
+  "updated_at" INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY ("question_id") REFERENCES questions("id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_processed_messages_channel" ON processed_messages("channel_id");
+CREATE INDEX IF NOT EXISTS "idx_processed_messages_status" ON processed_messages("status");
@@ -0,0 +1,6 @@
+-- Client segment (gca/gci/gcp) assigned by the channel routing rules
+-- Generated: 2026-10-19T15:00:00.000Z
+
+ALTER TABLE clients ADD COLUMN "segment" TEXT NULL;
+
+CREATE INDEX IF NOT EXISTS "idx_clients_segment" ON clients("segment");
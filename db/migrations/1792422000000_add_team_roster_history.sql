@@ -0,0 +1,15 @@
+-- Team membership history (TEAM_MEMBER_IDS, Discord team roles, human support_agents)
+-- Messages are classified as team or client by the membership at the time they were sent
+-- Generated: 2026-10-19T16:00:00.000Z
+
+CREATE TABLE IF NOT EXISTS team_roster_history (
+  "id" INTEGER PRIMARY KEY AUTOINCREMENT,
+  "user_id" TEXT NOT NULL,
+  "username" TEXT NULL,
+  "source" TEXT NOT NULL,
+  "action" TEXT NOT NULL,
+  "is_baseline" INTEGER NOT NULL DEFAULT 0,
+  "changed_at" INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_team_roster_history_user_changed" ON team_roster_history("user_id", "changed_at");
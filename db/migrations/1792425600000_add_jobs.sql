@@ -0,0 +1,20 @@
+-- Durable job queue between MessageCreate and the AI enrichment pipeline
+-- Jobs are retried with exponential backoff and moved to 'dead' after max_attempts
+-- Generated: 2026-10-19T17:00:00.000Z
+
+CREATE TABLE IF NOT EXISTS jobs (
+  "id" INTEGER PRIMARY KEY AUTOINCREMENT,
+  "type" TEXT NOT NULL,
+  "payload" TEXT NOT NULL,
+  "dedupe_key" TEXT NULL UNIQUE,
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "max_attempts" INTEGER NOT NULL DEFAULT 5,
+  "run_at" INTEGER NOT NULL,
+  "last_error" TEXT NULL,
+  "created_at" INTEGER NOT NULL DEFAULT (unixepoch()),
+  "updated_at" INTEGER NOT NULL DEFAULT (unixepoch()),
+  "completed_at" INTEGER NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_jobs_status_run_at" ON jobs("status", "run_at");
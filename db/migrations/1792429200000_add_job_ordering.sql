@@ -0,0 +1,7 @@
+-- Per-channel ordered processing: jobs sharing an ordering_key run one at a time in order_value order
+-- Generated: 2026-10-19T18:00:00.000Z
+
+ALTER TABLE jobs ADD COLUMN "ordering_key" TEXT NULL;
+ALTER TABLE jobs ADD COLUMN "order_value" INTEGER NULL;
+
+CREATE INDEX IF NOT EXISTS "idx_jobs_ordering" ON jobs("ordering_key", "status", "order_value");
@@ -0,0 +1,19 @@
+-- Per-channel progress of the historical fetcher (index-historical-fetcher.ts), per fetch mode
+-- Unfinished runs resume after last_message_id; finished runs are where the next run starts
+-- Generated: 2026-10-19T19:00:00.000Z
+
+CREATE TABLE IF NOT EXISTS backfill_checkpoints (
+  "id" INTEGER PRIMARY KEY AUTOINCREMENT,
+  "fetch_mode" TEXT NOT NULL,
+  "discord_channel_id" TEXT NOT NULL,
+  "channel_id" TEXT NOT NULL,
+  "since" INTEGER NOT NULL,
+  "last_message_id" TEXT,
+  "messages_queued" INTEGER NOT NULL DEFAULT 0,
+  "started_at" INTEGER NOT NULL,
+  "completed_at" INTEGER,
+  "updated_at" INTEGER NOT NULL DEFAULT (unixepoch()),
+  UNIQUE ("fetch_mode", "discord_channel_id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_backfill_checkpoints_channel" ON backfill_checkpoints("channel_id");
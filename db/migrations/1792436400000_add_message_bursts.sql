@@ -0,0 +1,7 @@
+-- Link consecutive client messages merged into one triage unit (message burst)
+-- burst_id is the Discord message id of the burst's first message, set on every message of the burst
+-- Generated: 2026-10-19T20:00:00.000Z
+
+ALTER TABLE processed_messages ADD COLUMN "burst_id" TEXT NULL;
+
+CREATE INDEX IF NOT EXISTS "idx_processed_messages_burst" ON processed_messages("burst_id");
@@ -0,0 +1,7 @@
+-- Record what a matched team reply was doing, so dashboards can filter response analytics by it
+-- Values: acknowledgement|answer|follow_up_question|scheduling|social (only answers are quality-scored)
+-- Generated: 2026-10-19T21:00:00.000Z
+
+ALTER TABLE csm_response_analytics ADD COLUMN "message_intent" TEXT NULL;
+
+CREATE INDEX IF NOT EXISTS "idx_csm_response_message_intent" ON csm_response_analytics("message_intent");
@@ -0,0 +1,25 @@
+-- Question lifecycle: open → acknowledged → in_progress → waiting_on_client → resolved → reopened/closed
+-- Every status change is recorded with its actor; time waiting on the client is kept off SLA clocks
+-- Generated: 2026-10-19T22:00:00.000Z
+
+ALTER TABLE questions ADD COLUMN "status_changed_at" INTEGER NULL;
+ALTER TABLE questions ADD COLUMN "waiting_on_client_seconds" INTEGER NOT NULL DEFAULT 0;
+
+-- 'pending' was an alias of 'open'
+UPDATE questions SET status = 'open' WHERE status = 'pending' OR status IS NULL;
+
+CREATE TABLE IF NOT EXISTS question_status_history (
+  "id" INTEGER PRIMARY KEY AUTOINCREMENT,
+  "question_id" INTEGER NOT NULL,
+  "from_status" TEXT NULL,
+  "to_status" TEXT NOT NULL,
+  "actor_id" TEXT NULL,
+  "actor_name" TEXT NULL,
+  "source" TEXT NULL,
+  "seconds_in_previous_status" INTEGER NULL,
+  "changed_at" INTEGER NOT NULL,
+  FOREIGN KEY ("question_id") REFERENCES questions("id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_question_status_history_question" ON question_status_history("question_id", "changed_at");
+CREATE INDEX IF NOT EXISTS "idx_question_status_history_changed" ON question_status_history("changed_at");
@@ -0,0 +1,7 @@
+-- Client follow-ups saying a resolved question is not fixed reopen it
+-- questions.reopen_count: times the question was reopened after being resolved
+-- csm_response_analytics.reopen_count: reopens counted against the response that resolved it
+-- Generated: 2026-10-19T23:00:00.000Z
+
+ALTER TABLE questions ADD COLUMN "reopen_count" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE csm_response_analytics ADD COLUMN "reopen_count" INTEGER NOT NULL DEFAULT 0;
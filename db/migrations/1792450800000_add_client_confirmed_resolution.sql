@@ -0,0 +1,12 @@
+-- Client-confirmed resolutions: the client thanked the team or said it works after a question was resolved
+-- Confirmed resolution time leaves out time waiting on the client, like resolution_time_seconds
+-- Generated: 2026-10-20T00:00:00.000Z
+
+ALTER TABLE questions ADD COLUMN "client_confirmed_at" INTEGER NULL;
+ALTER TABLE questions ADD COLUMN "confirmed_resolution_time_seconds" INTEGER NULL;
+
+ALTER TABLE csm_response_analytics ADD COLUMN "client_confirmed_at" INTEGER NULL;
+ALTER TABLE csm_response_analytics ADD COLUMN "confirmed_resolution_time_seconds" INTEGER NULL;
+
+ALTER TABLE daily_analytics_summary ADD COLUMN "queries_client_confirmed" INTEGER DEFAULT 0;
+ALTER TABLE daily_analytics_summary ADD COLUMN "avg_confirmed_resolution_time_seconds" INTEGER NULL;
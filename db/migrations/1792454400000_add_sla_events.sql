@@ -0,0 +1,22 @@
+-- SLA events: warnings, breaches and met targets for first response and resolution clocks
+-- At most one event of each type per question and clock; targets come from config/sla-policies.json
+-- Generated: 2026-10-20T01:00:00.000Z
+
+CREATE TABLE IF NOT EXISTS sla_events (
+  "id" INTEGER PRIMARY KEY AUTOINCREMENT,
+  "question_id" INTEGER NOT NULL,
+  "channel_id" TEXT NOT NULL,
+  "metric" TEXT NOT NULL,
+  "event_type" TEXT NOT NULL,
+  "priority" TEXT NULL,
+  "segment" TEXT NULL,
+  "target_seconds" INTEGER NOT NULL,
+  "elapsed_seconds" INTEGER NOT NULL,
+  "occurred_at" INTEGER NOT NULL,
+  "created_at" INTEGER NOT NULL,
+  FOREIGN KEY ("question_id") REFERENCES questions("id"),
+  UNIQUE ("question_id", "metric", "event_type")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_sla_events_channel" ON sla_events("channel_id", "occurred_at");
+CREATE INDEX IF NOT EXISTS "idx_sla_events_occurred" ON sla_events("occurred_at");
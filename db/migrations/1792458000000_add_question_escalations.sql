@@ -0,0 +1,18 @@
+-- Escalations of urgent questions (High urgency or Critical priority) without a team response
+-- One row per tier sent (channel, owner, lead); a tracked team reply cancels the escalation
+-- Generated: 2026-10-20T02:00:00.000Z
+
+CREATE TABLE IF NOT EXISTS question_escalations (
+  "id" INTEGER PRIMARY KEY AUTOINCREMENT,
+  "question_id" INTEGER NOT NULL,
+  "channel_id" TEXT NOT NULL,
+  "tier" TEXT NOT NULL,
+  "recipient_ids" TEXT NULL,
+  "escalated_at" INTEGER NOT NULL,
+  "cancelled_at" INTEGER NULL,
+  "cancelled_by_id" TEXT NULL,
+  FOREIGN KEY ("question_id") REFERENCES questions("id"),
+  UNIQUE ("question_id", "tier")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_question_escalations_channel" ON question_escalations("channel_id", "escalated_at");
@@ -0,0 +1,12 @@
+-- Client message counts come from the processed_messages ledger, which every routing profile writes
+-- (customer_sentiment only covers channels running the sentiment stage)
+-- Generated: 2026-10-20T03:00:00.000Z
+
+ALTER TABLE processed_messages ADD COLUMN "is_team_member" INTEGER NULL;
+ALTER TABLE processed_messages ADD COLUMN "deleted_at" INTEGER NULL;
+
+-- Messages with sentiment (and the bursts merged into them) were client messages
+UPDATE processed_messages SET
+  is_team_member = 0,
+  deleted_at = (SELECT s.deleted_at FROM customer_sentiment s WHERE s.message_id = COALESCE(processed_messages.burst_id, processed_messages.message_id))
+WHERE COALESCE(burst_id, message_id) IN (SELECT message_id FROM customer_sentiment);
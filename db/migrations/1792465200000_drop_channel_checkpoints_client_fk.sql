@@ -0,0 +1,19 @@
+-- Checkpoints are saved before a channel has a client row (new and team-only channels),
+-- so channel_checkpoints.channel_id no longer references clients
+-- Generated: 2026-10-20T04:00:00.000Z
+
+CREATE TABLE channel_checkpoints_new (
+  "discord_channel_id" TEXT PRIMARY KEY,
+  "channel_id" TEXT NOT NULL,
+  "last_message_id" TEXT NOT NULL,
+  "last_message_at" INTEGER NOT NULL,
+  "updated_at" INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+INSERT INTO channel_checkpoints_new (discord_channel_id, channel_id, last_message_id, last_message_at, updated_at)
+SELECT discord_channel_id, channel_id, last_message_id, last_message_at, updated_at FROM channel_checkpoints;
+
+DROP TABLE channel_checkpoints;
+ALTER TABLE channel_checkpoints_new RENAME TO channel_checkpoints;
+
+CREATE INDEX IF NOT EXISTS "idx_channel_checkpoints_channel" ON channel_checkpoints("channel_id");
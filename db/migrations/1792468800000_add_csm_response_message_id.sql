@@ -0,0 +1,7 @@
+-- One csm_response_analytics row per team reply, so a retried quality stage does not record it twice
+-- Rows recorded before this migration keep a NULL message_id
+-- Generated: 2026-10-20T05:00:00.000Z
+
+ALTER TABLE csm_response_analytics ADD COLUMN "message_id" TEXT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "csm_response_analytics_message_id_unique" ON csm_response_analytics("message_id");
@@ -211,6 +211,7 @@ export const clients = sqliteTable(
     channel_id: text('channel_id').primaryKey(),
     channel_name: text('channel_name').notNull(),
     client_name: text('client_name').notNull(),
+    segment: text('segment'), // gca|gci|gcp (assigned by routing rules)
     is_active: integer('is_active').default(1),
 
     // Churn Risk & Sentiment (Context7 Best Practices)
@@ -226,6 +227,7 @@ export const clients = sqliteTable(
   (table) => ({
     channel_name_idx: index('idx_clients_name').on(table.client_name),
     is_active_idx: index('idx_clients_active').on(table.is_active),
+    segment_idx: index('idx_clients_segment').on(table.segment),
   })
 );
 
@@ -244,8 +246,11 @@ export const questions = sqliteTable(
     // Classification
     type: text('type').notNull(),
     urgency: text('urgency').notNull(),
-    status: text('status').default('open'),
+    status: text('status').default('open'), // open|acknowledged|in_progress|waiting_on_client|resolved|reopened|closed (lib/question-lifecycle.ts)
     priority: text('priority'),
+    status_changed_at: integer('status_changed_at'), // Null until the first status change (then created_at applies)
+    waiting_on_client_seconds: integer('waiting_on_client_seconds').default(0).notNull(), // Kept off SLA clocks
+    reopen_count: integer('reopen_count').default(0).notNull(), // Times reopened after being resolved
 
     // Discord deep linking
     discord_msg_link: text('discord_msg_link').notNull(),
@@ -253,14 +258,18 @@ export const questions = sqliteTable(
     // Response tracking
     resolved_by_id: text('resolved_by_id'),
     response_time_seconds: integer('response_time_seconds'),
-    resolution_time_seconds: integer('resolution_time_seconds'),
+    resolution_time_seconds: integer('resolution_time_seconds'), // Excludes time waiting on the client
     response_quality_score: real('response_quality_score'),
     first_response_at: integer('first_response_at'),
     resolved_at: integer('resolved_at'),
+    client_confirmed_at: integer('client_confirmed_at'), // The client thanked / said it works after resolution
+    confirmed_resolution_time_seconds: integer('confirmed_resolution_time_seconds'),
+    match_method: text('match_method'), // How the resolving reply was matched: reply_reference|message_link|thread|single_open|general_keyword|ai|ai_fallback|reaction
 
     // Audit trail
     created_at: integer('created_at').default(sql`(unixepoch())`).notNull(),
     updated_at: integer('updated_at').default(sql`(unixepoch())`).notNull(),
+    deleted_at: integer('deleted_at'), // Set when the Discord message is deleted
   },
   (table) => ({
     channel_idx: index('idx_questions_channel').on(table.channel_id),
@@ -356,6 +365,7 @@ export const customer_sentiment = sqliteTable(
     // Audit trail
     created_at: integer('created_at').default(sql`(unixepoch())`).notNull(),
     confidence_level: text('confidence_level').default('mid'),
+    deleted_at: integer('deleted_at'), // Set when the Discord message is deleted
   },
   (table) => ({
     channel_idx: index('idx_sentiment_channel').on(table.channel_id),
@@ -381,6 +391,7 @@ export const csm_response_analytics = sqliteTable(
     channel_id: text('channel_id').notNull().references(() => clients.channel_id),
     query_id: integer('query_id').references(() => questions.id),
     sentiment_message_id: integer('sentiment_message_id').references(() => customer_sentiment.id), // Link to sentiment analysis
+    message_id: text('message_id').unique(), // Team reply the row records (one row per reply)
 
     // Timestamps
     query_timestamp: integer('query_timestamp').notNull(),
@@ -414,6 +425,16 @@ export const csm_response_analytics = sqliteTable(
     overall_quality_score: real('overall_quality_score'),
     ai_assessment_raw: text('ai_assessment_raw'),
 
+    // How the reply was matched to the query (see questions.match_method)
+    match_method: text('match_method'),
+    // What the reply was doing: acknowledgement|answer|follow_up_question|scheduling|social (only answers are scored)
+    message_intent: text('message_intent'),
+    // Times the question this response resolved was reopened (counts against the responder)
+    reopen_count: integer('reopen_count').default(0).notNull(),
+    // The client confirmed the resolution this response delivered
+    client_confirmed_at: integer('client_confirmed_at'),
+    confirmed_resolution_time_seconds: integer('confirmed_resolution_time_seconds'),
+
     // Audit trail
     created_at: integer('created_at').default(sql`(unixepoch())`).notNull(),
     updated_at: integer('updated_at').default(sql`(unixepoch())`).notNull(),
@@ -426,6 +447,7 @@ export const csm_response_analytics = sqliteTable(
     quality_score_idx: index('csm_quality_score_idx').on(table.overall_quality_score),
     confidence_level_idx: index('csm_confidence_level_idx').on(table.confidence_level),
     created_at_idx: index('idx_csm_response_timestamp').on(table.query_timestamp),
+    message_intent_idx: index('idx_csm_response_message_intent').on(table.message_intent),
 
     // Production optimization indexes
     channel_time_idx: index('csm_channel_time_idx').on(table.channel_id, table.query_timestamp),
@@ -500,6 +522,7 @@ export const topissuescomparison_job = sqliteTable(
 
     // Audit trail
     created_at: integer('created_at').default(sql`(unixepoch())`).notNull(),
+    deleted_at: integer('deleted_at'), // Set when the Discord message is deleted
   },
   (table) => ({
     issue_id_idx: index('idx_topissuescomparison_issue').on(table.issue_id),
@@ -624,6 +647,8 @@ export const daily_analytics_summary = sqliteTable(
     min_response_time_seconds: integer('min_response_time_seconds'),
     max_response_time_seconds: integer('max_response_time_seconds'),
     avg_resolution_time_seconds: integer('avg_resolution_time_seconds'),
+    queries_client_confirmed: integer('queries_client_confirmed').default(0),
+    avg_confirmed_resolution_time_seconds: integer('avg_confirmed_resolution_time_seconds'),
 
     // Quality metrics
     avg_usefulness_score: real('avg_usefulness_score'),
@@ -736,6 +761,274 @@ export const feature_requests = sqliteTable(
   })
 );
 
+// ============================================================================
+// MESSAGE LIFECYCLE TABLES
+// ============================================================================
+
+/**
+ * Message Edits - Edit history for client messages
+ * Keeps every previous version so re-triaged questions can be audited
+ */
+export const message_edits = sqliteTable(
+  'message_edits',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    channel_id: text('channel_id').notNull().references(() => clients.channel_id),
+    message_id: text('message_id').notNull(),
+    question_id: integer('question_id').references(() => questions.id),
+
+    // Content versions
+    previous_content: text('previous_content'),
+    new_content: text('new_content').notNull(),
+
+    // Author info
+    author_id: text('author_id'),
+    author_username: text('author_username'),
+    discord_msg_link: text('discord_msg_link'),
+
+    // Timestamps
+    edited_at: integer('edited_at').notNull(),
+    created_at: integer('created_at').default(sql`(unixepoch())`).notNull(),
+  },
+  (table) => ({
+    message_id_idx: index('idx_message_edits_message').on(table.message_id),
+    channel_edited_idx: index('idx_message_edits_channel_edited').on(table.channel_id, table.edited_at),
+    question_id_idx: index('idx_message_edits_question').on(table.question_id),
+  })
+);
+
+/**
+ * Conversations - Threads and forum posts inside client channels
+ * Messages are attributed to the parent client channel; the thread links
+ * back to the question that started it
+ */
+export const conversations = sqliteTable(
+  'conversations',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    thread_id: text('thread_id').notNull().unique(),
+    channel_id: text('channel_id').notNull().references(() => clients.channel_id), // Parent client channel
+    question_id: integer('question_id').references(() => questions.id),
+    starter_message_id: text('starter_message_id'),
+
+    // Thread metadata
+    thread_name: text('thread_name'),
+    thread_type: text('thread_type').notNull(), // thread|forum_post
+    owner_id: text('owner_id'),
+
+    // Activity
+    message_count: integer('message_count').default(0),
+    last_message_at: integer('last_message_at'),
+
+    // Audit trail
+    created_at: integer('created_at').default(sql`(unixepoch())`).notNull(),
+    updated_at: integer('updated_at').default(sql`(unixepoch())`).notNull(),
+  },
+  (table) => ({
+    channel_id_idx: index('idx_conversations_channel').on(table.channel_id),
+    question_id_idx: index('idx_conversations_question').on(table.question_id),
+  })
+);
+
+/**
+ * Channel Checkpoints - High-water mark of the last processed message per channel
+ * Used to backfill messages posted while the listener was offline
+ */
+export const channel_checkpoints = sqliteTable(
+  'channel_checkpoints',
+  {
+    discord_channel_id: text('discord_channel_id').primaryKey(), // Channel, thread or forum post id
+    channel_id: text('channel_id').notNull(), // Parent client channel (saved before the client row exists)
+    last_message_id: text('last_message_id').notNull(),
+    last_message_at: integer('last_message_at').notNull(),
+    updated_at: integer('updated_at').default(sql`(unixepoch())`).notNull(),
+  },
+  (table) => ({
+    channel_id_idx: index('idx_channel_checkpoints_channel').on(table.channel_id),
+  })
+);
+
+/**
+ * Processed Messages - Ledger of messages run through the live pipeline
+ * Records which stages finished so a crash mid-pipeline resumes only the missing ones
+ */
+export const processed_messages = sqliteTable(
+  'processed_messages',
+  {
+    message_id: text('message_id').primaryKey(),
+    channel_id: text('channel_id').notNull(), // Parent client channel
+    discord_channel_id: text('discord_channel_id').notNull(), // Channel, thread or forum post id
+    author_id: text('author_id'),
+    message_timestamp: integer('message_timestamp').notNull(),
+
+    // Pipeline progress
+    completed_stages: text('completed_stages').default('[]').notNull(), // JSON array: triage|sentiment|urls|looms|quality
+    question_id: integer('question_id').references(() => questions.id), // Question raised (client) or replied to (team)
+    status: text('status').default('processing').notNull(), // processing|completed
+    attempts: integer('attempts').default(1).notNull(),
+    burst_id: text('burst_id'), // First message of the burst this message was merged into (null = processed alone)
+    is_team_member: integer('is_team_member'), // 1 = team message, 0 = client message (daily client message counts)
+    deleted_at: integer('deleted_at'), // Set when the Discord message is deleted
+
+    // Timestamps
+    first_seen_at: integer('first_seen_at').default(sql`(unixepoch())`).notNull(),
+    completed_at: integer('completed_at'),
+    updated_at: integer('updated_at').default(sql`(unixepoch())`).notNull(),
+  },
+  (table) => ({
+    channel_id_idx: index('idx_processed_messages_channel').on(table.channel_id),
+    status_idx: index('idx_processed_messages_status').on(table.status),
+    burst_idx: index('idx_processed_messages_burst').on(table.burst_id),
+  })
+);
+
+/**
+ * Team Roster History - Changes to team membership (env list, Discord roles, support_agents)
+ * Lets past messages be classified by the membership that applied when they were sent
+ */
+export const team_roster_history = sqliteTable(
+  'team_roster_history',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    user_id: text('user_id').notNull(),
+    username: text('username'),
+    source: text('source').notNull(), // env|role|support_agent
+    action: text('action').notNull(), // added|removed
+    is_baseline: integer('is_baseline').default(0).notNull(), // First sync - also applies to earlier messages
+    changed_at: integer('changed_at').notNull(),
+  },
+  (table) => ({
+    user_changed_idx: index('idx_team_roster_history_user_changed').on(table.user_id, table.changed_at),
+  })
+);
+
+/**
+ * Jobs - Durable queue between Discord events and the AI enrichment pipeline
+ * Failed jobs are retried with exponential backoff and end up 'dead' after max_attempts
+ */
+export const jobs = sqliteTable(
+  'jobs',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    type: text('type').notNull(), // process_message
+    payload: text('payload').notNull(), // JSON
+    dedupe_key: text('dedupe_key').unique(), // e.g. Discord message id
+    ordering_key: text('ordering_key'), // Jobs with the same key run one at a time (client channel id)
+    order_value: integer('order_value'), // Order within the key (message timestamp, ms)
+
+    // State
+    status: text('status').default('pending').notNull(), // pending|running|completed|dead
+    attempts: integer('attempts').default(0).notNull(),
+    max_attempts: integer('max_attempts').default(5).notNull(),
+    run_at: integer('run_at').notNull(), // Not claimed before this time (backoff)
+    last_error: text('last_error'),
+
+    // Timestamps
+    created_at: integer('created_at').default(sql`(unixepoch())`).notNull(),
+    updated_at: integer('updated_at').default(sql`(unixepoch())`).notNull(),
+    completed_at: integer('completed_at'),
+  },
+  (table) => ({
+    status_run_at_idx: index('idx_jobs_status_run_at').on(table.status, table.run_at),
+    ordering_idx: index('idx_jobs_ordering').on(table.ordering_key, table.status, table.order_value),
+  })
+);
+
+/**
+ * Backfill Checkpoints - Progress of index-historical-fetcher.ts per channel and fetch mode
+ * An unfinished run resumes after last_message_id; a finished one is the starting point of the next
+ */
+export const backfill_checkpoints = sqliteTable(
+  'backfill_checkpoints',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    fetch_mode: text('fetch_mode').notNull(), // BACKFILL|WEEKLY
+    discord_channel_id: text('discord_channel_id').notNull(), // Channel, thread or forum post id
+    channel_id: text('channel_id').notNull(), // Parent client channel
+    since: integer('since').notNull(), // Oldest message time covered by the run
+    last_message_id: text('last_message_id'), // Newest message queued so far
+    messages_queued: integer('messages_queued').default(0).notNull(),
+    started_at: integer('started_at').notNull(),
+    completed_at: integer('completed_at'), // Null while the run is unfinished
+    updated_at: integer('updated_at').default(sql`(unixepoch())`).notNull(),
+  },
+  (table) => ({
+    unique_mode_channel: unique('unique_backfill_checkpoint').on(table.fetch_mode, table.discord_channel_id),
+    channel_id_idx: index('idx_backfill_checkpoints_channel').on(table.channel_id),
+  })
+);
+
+/**
+ * Question Status History - Every lifecycle status change of a question, with its actor
+ * Time spent in each status per question is seconds_in_previous_status
+ */
+export const question_status_history = sqliteTable(
+  'question_status_history',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    question_id: integer('question_id').notNull().references(() => questions.id),
+    from_status: text('from_status'),
+    to_status: text('to_status').notNull(),
+    actor_id: text('actor_id'), // Discord user id (team member, or the client for client replies)
+    actor_name: text('actor_name'),
+    source: text('source'), // reply|reaction|command|client_reply
+    seconds_in_previous_status: integer('seconds_in_previous_status'),
+    changed_at: integer('changed_at').notNull(),
+  },
+  (table) => ({
+    question_changed_idx: index('idx_question_status_history_question').on(table.question_id, table.changed_at),
+    changed_at_idx: index('idx_question_status_history_changed').on(table.changed_at),
+  })
+);
+
+/**
+ * SLA Events - Warnings, breaches and met targets of a question's first response and resolution clocks
+ * One event per type per question and clock; breach rates are breached / (met + breached)
+ */
+export const sla_events = sqliteTable(
+  'sla_events',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    question_id: integer('question_id').notNull().references(() => questions.id),
+    channel_id: text('channel_id').notNull(),
+    metric: text('metric').notNull(), // first_response|resolution
+    event_type: text('event_type').notNull(), // warning|breached|met
+    priority: text('priority'),
+    segment: text('segment'), // Client segment when the event was recorded (segment policies override priority defaults)
+    target_seconds: integer('target_seconds').notNull(),
+    elapsed_seconds: integer('elapsed_seconds').notNull(),
+    occurred_at: integer('occurred_at').notNull(), // Clock stop time, or evaluation time for running clocks
+    created_at: integer('created_at').notNull(),
+  },
+  (table) => ({
+    unique_question_metric_event: unique('unique_sla_event').on(table.question_id, table.metric, table.event_type),
+    channel_idx: index('idx_sla_events_channel').on(table.channel_id, table.occurred_at),
+    occurred_at_idx: index('idx_sla_events_occurred').on(table.occurred_at),
+  })
+);
+
+/**
+ * Question Escalations - Tiers sent for urgent questions without a team response (lib/escalations.ts)
+ * Cancelled when a team reply to the question is tracked
+ */
+export const question_escalations = sqliteTable(
+  'question_escalations',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    question_id: integer('question_id').notNull().references(() => questions.id),
+    channel_id: text('channel_id').notNull(),
+    tier: text('tier').notNull(), // channel|owner|lead
+    recipient_ids: text('recipient_ids'), // JSON array of the channel / user ids it was delivered to
+    escalated_at: integer('escalated_at').notNull(),
+    cancelled_at: integer('cancelled_at'), // Time of the team reply that cancelled the escalation
+    cancelled_by_id: text('cancelled_by_id'), // Discord user id of that reply's author
+  },
+  (table) => ({
+    unique_question_tier: unique('unique_question_escalation_tier').on(table.question_id, table.tier),
+    channel_idx: index('idx_question_escalations_channel').on(table.channel_id, table.escalated_at),
+  })
+);
+
 // ============================================================================
 // RELATIONS (for querying convenience)
 // ============================================================================
@@ -757,6 +1050,11 @@ export const questionsRelations = relations(questions, ({ one, many }) => ({
   looms: many(looms),
   outbound_links: many(outbound_links),
   issue_instances: many(topissuescomparison_job),
+  edits: many(message_edits),
+  conversations: many(conversations),
+  status_history: many(question_status_history),
+  sla_events: many(sla_events),
+  escalations: many(question_escalations),
 }));
 
 export const csmResponseRelations = relations(csm_response_analytics, ({ one }) => ({
@@ -802,6 +1100,28 @@ export const outboundLinkRelations = relations(outbound_links, ({ one }) => ({
   issue: one(top_issues, { fields: [outbound_links.issue_id], references: [top_issues.id] }),
 }));
 
+export const messageEditRelations = relations(message_edits, ({ one }) => ({
+  client: one(clients, { fields: [message_edits.channel_id], references: [clients.channel_id] }),
+  question: one(questions, { fields: [message_edits.question_id], references: [questions.id] }),
+}));
+
+export const questionStatusHistoryRelations = relations(question_status_history, ({ one }) => ({
+  question: one(questions, { fields: [question_status_history.question_id], references: [questions.id] }),
+}));
+
+export const slaEventRelations = relations(sla_events, ({ one }) => ({
+  question: one(questions, { fields: [sla_events.question_id], references: [questions.id] }),
+}));
+
+export const questionEscalationRelations = relations(question_escalations, ({ one }) => ({
+  question: one(questions, { fields: [question_escalations.question_id], references: [questions.id] }),
+}));
+
+export const conversationRelations = relations(conversations, ({ one }) => ({
+  client: one(clients, { fields: [conversations.channel_id], references: [clients.channel_id] }),
+  question: one(questions, { fields: [conversations.question_id], references: [questions.id] }),
+}));
+
 export const kbDocumentRelations = relations(kb_documents, ({ one, many }) => ({
   client: one(clients, { fields: [kb_documents.channel_id], references: [clients.channel_id] }),
   chunks: many(kb_chunks),
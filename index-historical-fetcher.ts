@@ -0,0 +1,581 @@
+/**
+ * CAIO Client Intelligence Platform - Discord Bot (HISTORICAL FETCHER)
+ *
+ * Pages through the history of every client channel (and its threads and forum posts) and
+ * queues the messages for the same pipeline the live listener runs. Nothing is analysed here:
+ * messages become process_message jobs (lib/message-jobs.ts) that the listener's workers
+ * process in per-channel message order, exactly like live and gap-recovered messages.
+ *
+ * - Channels are selected by the listener's routing rules (config/routing-rules.json)
+ * - Messages already in the processed_messages ledger are skipped; queued ones are not queued twice
+ * - History stops at the listener's channel checkpoint; newer messages are its job
+ *
+ * Checkpoints: progress is stored per channel and fetch mode in backfill_checkpoints after
+ * every page. An interrupted run (Ctrl+C, crash, rate limits) resumes where it stopped; a
+ * finished run is the starting point of the next one, so weekly runs only fetch new history.
+ *
+ * Rate limits: discord.js waits out 429s on its own; every rate limit hit is logged and counted,
+ * pages are spaced by FETCH_PAGE_DELAY_MS, and FETCH_MAX_PENDING_JOBS pauses queueing while the
+ * listener works through the backlog (keeps OpenRouter load at the listener's job concurrency).
+ *
+ * Dry run: fetches the same history without queueing jobs or moving checkpoints and reports
+ * how many messages would be queued, how many of them could become questions and an estimate
+ * of the AI calls the pipeline would make for them.
+ *
+ * HOW TO RUN:
+ *
+ * 1. FULL BACKFILL (default: 2 months):
+ *    $ npm run fetch:historical
+ *
+ * 2. WEEKLY SWEEP (last week, separate checkpoints):
+ *    $ npm run fetch:weekly
+ *
+ * 3. DRY RUN (nothing is queued or written):
+ *    $ npm run fetch:historical -- --dry-run
+ *
+ * Environment Variables:
+ * - DISCORD_BOT_TOKEN: Discord bot token (required)
+ * - FETCH_MODE: BACKFILL | WEEKLY - each mode keeps its own checkpoints (default: BACKFILL)
+ * - FETCH_MONTHS_PRIMARY: How many months of history to fetch (default: 2, WEEKLY: 0.25)
+ * - FETCH_DRY_RUN: Same as --dry-run (default: false)
+ * - FETCH_PAGE_DELAY_MS: Pause between history pages of 100 messages (default: 500)
+ * - FETCH_MAX_PENDING_JOBS: Wait while this many jobs are pending (default: 0, no limit)
+ * - MIN_MESSAGE_LENGTH: Shorter messages are skipped, as in the listener (default: 5)
+ * - BURST_WINDOW_SECONDS: As in the listener - short client messages are queued to be merged
+ *   with their burst (default: 30, 0 disables)
+ * - TEAM_MEMBER_IDS: Comma-separated Discord user IDs of team members (dry run estimates)
+ * - JOB_MAX_ATTEMPTS: Attempts before a queued job is dead-lettered (default: 5)
+ * - ROUTING_RULES_PATH: Routing rules file (default: config/routing-rules.json)
+ * - DEBUG: Enable debug logging (default: false)
+ * - TURSO_DATABASE_URL: Turso database URL (required)
+ * - TURSO_AUTH_TOKEN: Turso authentication token (required)
+ */
+
+import 'dotenv/config';
+import { AnyThreadChannel, ChannelType, Client, Collection, Events, GatewayIntentBits, Guild, GuildBasedChannel, GuildTextBasedChannel, Message, RESTEvents, SnowflakeUtil } from 'discord.js';
+import { and, eq, sql } from 'drizzle-orm';
+
+// Drizzle DB and Schema
+import { db, tursoClient } from './db';
+import { backfill_checkpoints, channel_checkpoints } from './db/schema';
+
+// Queueing messages for the listener's pipeline
+import { JobQueue } from './lib/job-queue';
+import { enqueueMessageJob } from './lib/message-jobs';
+import { burstDelaySeconds, isBurstCandidate } from './lib/message-bursts';
+import { MessageLedger } from './lib/message-ledger';
+
+// Same channel selection and team classification as the listener
+import { ChannelRoute, ChannelRouter } from './lib/channel-router';
+import { TeamRoster } from './lib/team-roster';
+
+// Structured NDJSON logging with per-message correlation ids
+import { createLogger, withLogContext } from './lib/logger';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+type FetchMode = 'BACKFILL' | 'WEEKLY';
+
+const FETCH_MODES: FetchMode[] = ['BACKFILL', 'WEEKLY'];
+
+const FETCH_MODE = (process.env.FETCH_MODE || 'BACKFILL').toUpperCase() as FetchMode;
+
+const CONFIG = {
+    DISCORD_BOT_TOKEN: process.env.DISCORD_BOT_TOKEN!,
+    FETCH_MODE,
+    FETCH_MONTHS_PRIMARY: parseFloat(process.env.FETCH_MONTHS_PRIMARY || (FETCH_MODE === 'WEEKLY' ? '0.25' : '2')),
+    DRY_RUN: process.argv.includes('--dry-run') || process.env.FETCH_DRY_RUN === 'true',
+    FETCH_PAGE_DELAY_MS: parseInt(process.env.FETCH_PAGE_DELAY_MS || '500'),
+    FETCH_MAX_PENDING_JOBS: parseInt(process.env.FETCH_MAX_PENDING_JOBS || '0'),
+    MIN_MESSAGE_LENGTH: parseInt(process.env.MIN_MESSAGE_LENGTH || '5'),
+    BURST_WINDOW_SECONDS: parseInt(process.env.BURST_WINDOW_SECONDS || '30'),
+    TEAM_MEMBER_IDS: process.env.TEAM_MEMBER_IDS ? process.env.TEAM_MEMBER_IDS.split(',').map(id => id.trim()) : [],
+    JOB_MAX_ATTEMPTS: parseInt(process.env.JOB_MAX_ATTEMPTS || '5'),
+    DEBUG: process.env.DEBUG === 'true',
+};
+
+// Page size of Discord's message history endpoint
+const PAGE_SIZE = 100;
+
+// How often a full queue is checked again
+const QUEUE_POLL_INTERVAL_MS = 10000;
+
+if (!FETCH_MODES.includes(CONFIG.FETCH_MODE)) {
+    console.error(`❌ Unknown FETCH_MODE: ${CONFIG.FETCH_MODE} (expected ${FETCH_MODES.join(', ')})`);
+    process.exit(1);
+}
+
+if (!CONFIG.DISCORD_BOT_TOKEN) {
+    console.error(`❌ Missing required environment variable: DISCORD_BOT_TOKEN`);
+    process.exit(1);
+}
+
+// Oldest message time fetched by this run (unix seconds)
+const SINCE = Math.floor(Date.now() / 1000 - CONFIG.FETCH_MONTHS_PRIMARY * 30 * 24 * 60 * 60);
+
+// ============================================================================
+// INITIALIZE CLIENTS
+// ============================================================================
+
+const discordClient = new Client({
+    intents: [
+        GatewayIntentBits.Guilds,
+        GatewayIntentBits.GuildMessages,
+        GatewayIntentBits.MessageContent,
+    ],
+});
+
+const channelRouter = new ChannelRouter({
+    rulesPath: process.env.ROUTING_RULES_PATH,
+    debug: CONFIG.DEBUG
+});
+
+// Read-only here: membership as recorded by the listener, used for the dry run estimates
+const teamRoster = new TeamRoster(tursoClient, {
+    staticMemberIds: CONFIG.TEAM_MEMBER_IDS,
+    debug: CONFIG.DEBUG
+});
+
+const messageLedger = new MessageLedger(tursoClient, {
+    debug: CONFIG.DEBUG
+});
+
+// Only used to queue jobs - the listener's workers run them
+const jobQueue = new JobQueue(tursoClient, {
+    maxAttempts: CONFIG.JOB_MAX_ATTEMPTS,
+    debug: CONFIG.DEBUG
+});
+
+// Set on Ctrl+C: the current page finishes and its checkpoint is saved
+let shuttingDown = false;
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+
+const logger = createLogger('historical_fetcher');
+
+function log(level: 'INFO' | 'DEBUG' | 'ERROR' | 'WARN', message: string, data: any = null) {
+    logger.log(level, message, data);
+}
+
+/**
+ * What the run queued (or would queue, in a dry run)
+ */
+const summary = {
+    mode: CONFIG.FETCH_MODE,
+    dryRun: CONFIG.DRY_RUN,
+    since: new Date(SINCE * 1000).toISOString(),
+    channels: 0,
+    channelsFailed: 0,
+    messagesFetched: 0,
+    skipped: { bot: 0, too_short: 0, already_processed: 0 },
+    queued: { client: 0, team: 0 },
+    // Queued client messages merged into the burst of the message before them (no AI calls of their own)
+    mergedIntoBursts: 0,
+    // Client messages that go through AI triage - each one can become a question
+    questionCandidates: 0,
+    // Sentiment / triage / team message intent always call the AI; reply matching, response
+    // quality (answers only) and question categorization (plus its embedding) only in some cases
+    aiCalls: { min: 0, max: 0 },
+    rateLimits: 0,
+};
+
+discordClient.rest.on(RESTEvents.RateLimited, info => {
+    summary.rateLimits++;
+    log('WARN', `Rate limited on ${info.method} ${info.route} - retrying in ${info.timeToReset}ms`, {
+        global: info.global,
+        scope: info.scope,
+    });
+});
+
+// ============================================================================
+// CHECKPOINTS
+// ============================================================================
+
+async function getBackfillCheckpoint(discordChannelId: string) {
+    const result = await db.select()
+        .from(backfill_checkpoints)
+        .where(and(
+            eq(backfill_checkpoints.fetch_mode, CONFIG.FETCH_MODE),
+            eq(backfill_checkpoints.discord_channel_id, discordChannelId)
+        ))
+        .limit(1);
+
+    return result[0] || null;
+}
+
+/**
+ * Begin a new run for a channel (replaces the previous, finished run)
+ */
+async function startBackfillCheckpoint(discordChannelId: string, channelId: string, since: number, after: string) {
+    const now = Math.floor(Date.now() / 1000);
+    const checkpointData = {
+        since,
+        last_message_id: after,
+        messages_queued: 0,
+        started_at: now,
+        completed_at: null,
+        updated_at: now,
+    };
+
+    await db.insert(backfill_checkpoints).values({
+        fetch_mode: CONFIG.FETCH_MODE,
+        discord_channel_id: discordChannelId,
+        channel_id: channelId,
+        ...checkpointData,
+    }).onConflictDoUpdate({
+        target: [backfill_checkpoints.fetch_mode, backfill_checkpoints.discord_channel_id],
+        set: checkpointData,
+    });
+}
+
+async function saveBackfillProgress(discordChannelId: string, lastMessageId: string, queued: number, completed = false) {
+    const now = Math.floor(Date.now() / 1000);
+    await db.update(backfill_checkpoints)
+        .set({
+            last_message_id: lastMessageId,
+            messages_queued: queued,
+            ...(completed ? { completed_at: now } : {}),
+            updated_at: now,
+        })
+        .where(and(
+            eq(backfill_checkpoints.fetch_mode, CONFIG.FETCH_MODE),
+            eq(backfill_checkpoints.discord_channel_id, discordChannelId)
+        ));
+}
+
+/**
+ * The listener's high-water mark for a channel - it has already handled everything after it
+ */
+async function getLiveCheckpoint(discordChannelId: string) {
+    const result = await db.select({ last_message_id: channel_checkpoints.last_message_id })
+        .from(channel_checkpoints)
+        .where(eq(channel_checkpoints.discord_channel_id, discordChannelId))
+        .limit(1);
+
+    return result[0]?.last_message_id ?? null;
+}
+
+// ============================================================================
+// CHANNEL DISCOVERY
+// ============================================================================
+
+interface BackfillTarget {
+    channel: GuildTextBasedChannel;
+    channelId: string; // Parent client channel
+    route: ChannelRoute;
+}
+
+/**
+ * Route a channel like the listener does: threads and forum posts belong to their parent
+ */
+function resolveTarget(channel: GuildTextBasedChannel): BackfillTarget | null {
+    const clientChannel = channel.isThread() ? channel.parent : channel;
+    if (!clientChannel) return null;
+
+    const route = channelRouter.resolve(clientChannel);
+    return route ? { channel, channelId: clientChannel.id, route } : null;
+}
+
+/**
+ * Public and private archived threads of a channel that were still active after the cutoff
+ * (a thread archived earlier has no messages in range)
+ */
+async function fetchArchivedThreads(channel: GuildBasedChannel) {
+    if (!('threads' in channel)) return [];
+
+    // Only text channels have private threads
+    const types: Array<'public' | 'private'> = channel.type === ChannelType.GuildText ? ['public', 'private'] : ['public'];
+    const threads: AnyThreadChannel[] = [];
+
+    for (const type of types) {
+        let before: number | undefined;
+
+        while (true) {
+            let page;
+            try {
+                page = await channel.threads.fetchArchived({ type, before, limit: 100 });
+            } catch (error: any) {
+                // Listing private archived threads needs Manage Threads
+                if (type !== 'private' || (error.code !== 50001 && error.code !== 50013)) throw error;
+                log('WARN', `Skipping private archived threads of #${channel.name}: bot lacks Manage Threads`);
+                break;
+            }
+
+            const { threads: batch, hasMore } = page;
+            const recent = [...batch.values()].filter(thread => (thread.archiveTimestamp ?? 0) >= SINCE * 1000);
+            threads.push(...recent);
+
+            if (!hasMore || recent.length < batch.size || batch.size === 0) break;
+            before = batch.last()!.archiveTimestamp ?? undefined;
+            if (!before) break;
+        }
+    }
+
+    return threads;
+}
+
+/**
+ * Every routed channel of a guild plus its active and recently archived threads / forum posts
+ */
+async function discoverTargets(guild: Guild) {
+    const targets: BackfillTarget[] = [];
+
+    for (const channel of guild.channels.cache.values()) {
+        const threadParent = channel.type === ChannelType.GuildText || channel.type === ChannelType.GuildAnnouncement
+            || channel.type === ChannelType.GuildForum || channel.type === ChannelType.GuildMedia;
+        if (!threadParent || !channelRouter.resolve(channel)) continue;
+
+        // Forum and media channels only hold posts (threads), no messages of their own
+        if (channel.isTextBased()) {
+            const target = resolveTarget(channel);
+            if (target) targets.push(target);
+        }
+
+        try {
+            for (const thread of await fetchArchivedThreads(channel)) {
+                const target = resolveTarget(thread);
+                if (target) targets.push(target);
+            }
+        } catch (error: any) {
+            log('WARN', `Could not list archived threads of #${channel.name}: ${error.message}`);
+        }
+    }
+
+    const { threads } = await guild.channels.fetchActiveThreads();
+    for (const thread of threads.values()) {
+        const target = resolveTarget(thread);
+        if (target) targets.push(target);
+    }
+
+    return targets;
+}
+
+// ============================================================================
+// BACKFILL
+// ============================================================================
+
+function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Pause while the queue holds FETCH_MAX_PENDING_JOBS pending jobs or more
+ */
+async function waitForQueueCapacity() {
+    if (CONFIG.DRY_RUN || CONFIG.FETCH_MAX_PENDING_JOBS <= 0) return;
+
+    let waiting = false;
+    while (!shuttingDown) {
+        const pending = (await jobQueue.getStats()).pending ?? 0;
+        if (pending < CONFIG.FETCH_MAX_PENDING_JOBS) return;
+
+        if (!waiting) {
+            log('INFO', `${pending} jobs pending - waiting for the listener's workers to catch up`);
+            waiting = true;
+        }
+        await sleep(QUEUE_POLL_INTERVAL_MS);
+    }
+}
+
+function isFromTeam(message: Message<true>) {
+    return teamRoster.wasTeamMemberAt(message.author.id, Math.floor(message.createdTimestamp / 1000))
+        || CONFIG.TEAM_MEMBER_IDS.includes(message.author.id);
+}
+
+/**
+ * Whether the listener will merge this message into the burst of the message before it
+ */
+function continuesBurst(message: Message<true>, previous: Message<true> | null) {
+    if (!previous || !isBurstCandidate(message, isFromTeam(message), CONFIG.BURST_WINDOW_SECONDS)) return false;
+    return previous.author.id === message.author.id
+        && message.createdTimestamp - previous.createdTimestamp < CONFIG.BURST_WINDOW_SECONDS * 1000;
+}
+
+/**
+ * Count what the pipeline will do with a queued message (see processClientChannelMessage)
+ */
+function countQueuedMessage(message: Message<true>, route: ChannelRoute, mergedIntoBurst: boolean) {
+    if (isFromTeam(message)) {
+        summary.queued.team++;
+        if (route.stages.has('quality')) {
+            summary.aiCalls.min += 1; // Intent
+            summary.aiCalls.max += 3; // + reply matching when several questions are open, + quality of answers
+        }
+        return;
+    }
+
+    summary.queued.client++;
+    if (mergedIntoBurst) {
+        summary.mergedIntoBursts++;
+        return;
+    }
+    if (route.stages.has('sentiment')) {
+        summary.aiCalls.min += 1;
+        summary.aiCalls.max += 1;
+    }
+    if (route.stages.has('triage')) {
+        summary.questionCandidates++;
+        summary.aiCalls.min += 1; // Triage
+        summary.aiCalls.max += 4; // + reopen / confirmation check when questions were resolved recently, + categorization and embedding of a new question
+    }
+}
+
+/**
+ * Page forward through one channel's history from its checkpoint and queue every message
+ */
+async function backfillChannel(target: BackfillTarget) {
+    const { channel, channelId, route } = target;
+    const checkpoint = await getBackfillCheckpoint(channel.id);
+    const sinceId = SnowflakeUtil.generate({ timestamp: SINCE * 1000 }).toString();
+
+    let after: string;
+    let queued = 0;
+    if (checkpoint && !checkpoint.completed_at) {
+        // Unfinished run: continue it with its original cutoff
+        after = checkpoint.last_message_id ?? SnowflakeUtil.generate({ timestamp: checkpoint.since * 1000 }).toString();
+        queued = checkpoint.messages_queued;
+        log('INFO', `Resuming #${channel.name} after ${after}`, { queued });
+    } else {
+        // New run: start at the cutoff, or where the previous run finished if that is newer
+        after = checkpoint?.last_message_id && BigInt(checkpoint.last_message_id) > BigInt(sinceId)
+            ? checkpoint.last_message_id
+            : sinceId;
+        if (!CONFIG.DRY_RUN) await startBackfillCheckpoint(channel.id, channelId, SINCE, after);
+    }
+
+    const liveCheckpoint = await getLiveCheckpoint(channel.id);
+    let reachedEnd = false;
+    // Bursts can span pages
+    let previous: Message<true> | null = null;
+
+    while (!shuttingDown) {
+        await waitForQueueCapacity();
+
+        const batch: Collection<string, Message<true>> = await channel.messages.fetch({ after, limit: PAGE_SIZE });
+        const sorted = [...batch.values()].sort((a, b) => a.createdTimestamp - b.createdTimestamp);
+        const page = liveCheckpoint ? sorted.filter(m => BigInt(m.id) <= BigInt(liveCheckpoint)) : sorted;
+        const processed = await messageLedger.findCompleted(page.map(m => m.id));
+
+        try {
+            for (const message of page) {
+                summary.messagesFetched++;
+                const burstCandidate = isBurstCandidate(message, isFromTeam(message), CONFIG.BURST_WINDOW_SECONDS);
+                const mergedIntoBurst = continuesBurst(message, previous);
+                previous = message;
+
+                if (message.author.bot) {
+                    summary.skipped.bot++;
+                } else if (message.content.length < CONFIG.MIN_MESSAGE_LENGTH && !burstCandidate) {
+                    // Short client fragments are queued - the listener merges them with their burst
+                    summary.skipped.too_short++;
+                } else if (processed.has(message.id)) {
+                    summary.skipped.already_processed++;
+                } else {
+                    if (!CONFIG.DRY_RUN) {
+                        const delaySeconds = burstCandidate ? burstDelaySeconds(message, CONFIG.BURST_WINDOW_SECONDS) : 0;
+                        const enqueued = await withLogContext({ correlationId: message.id }, () =>
+                            enqueueMessageJob(jobQueue, message, channelId, true, delaySeconds)
+                        );
+                        if (!enqueued) throw new Error(`Failed to queue message ${message.id}`);
+                    }
+                    queued++;
+                    countQueuedMessage(message, route, mergedIntoBurst);
+                }
+
+                after = message.id;
+            }
+        } finally {
+            if (!CONFIG.DRY_RUN) await saveBackfillProgress(channel.id, after, queued);
+        }
+
+        // Past the listener's checkpoint, or the end of the channel
+        if (page.length < sorted.length || batch.size < PAGE_SIZE) {
+            reachedEnd = true;
+            break;
+        }
+        await sleep(CONFIG.FETCH_PAGE_DELAY_MS);
+    }
+
+    if (reachedEnd && !CONFIG.DRY_RUN) await saveBackfillProgress(channel.id, after, queued, true);
+    log('INFO', `${reachedEnd ? 'Finished' : 'Paused'} #${channel.name}`, { channelId, queued, after });
+}
+
+async function backfillGuilds(guilds: Iterable<Guild>) {
+    for (const guild of guilds) {
+        const targets = await discoverTargets(guild);
+        if (targets.length === 0) continue;
+        log('INFO', `${targets.length} client channels and threads to fetch in ${guild.name}`);
+
+        for (const target of targets) {
+            if (shuttingDown) return;
+            summary.channels++;
+
+            try {
+                await backfillChannel(target);
+            } catch (error: any) {
+                // The checkpoint keeps the progress - the next run resumes this channel
+                summary.channelsFailed++;
+                log('ERROR', `Failed to fetch #${target.channel.name}: ${error.message}`, { channelId: target.channelId });
+            }
+        }
+    }
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+discordClient.once(Events.ClientReady, async readyClient => {
+    log('INFO', `Logged in as ${readyClient.user.tag}`, {
+        mode: CONFIG.FETCH_MODE,
+        since: summary.since,
+        dryRun: CONFIG.DRY_RUN,
+    });
+
+    let exitCode = 0;
+    try {
+        await backfillGuilds(readyClient.guilds.cache.values());
+
+        if (CONFIG.DRY_RUN) {
+            log('INFO', 'Dry run complete - nothing was queued', summary);
+        } else {
+            log('INFO', shuttingDown ? 'Backfill interrupted - run again to resume' : 'Backfill complete - the listener processes the queued messages', summary);
+        }
+        if (summary.channelsFailed > 0) exitCode = 1;
+    } catch (error: any) {
+        log('ERROR', `Backfill failed: ${error.message}`);
+        exitCode = 1;
+    }
+
+    await discordClient.destroy();
+    process.exit(exitCode);
+});
+
+discordClient.on('error', error => log('ERROR', `Discord client error: ${error.message}`));
+
+async function startup() {
+    try {
+        channelRouter.load();
+        await db.run(sql`SELECT 1`);
+        await teamRoster.load();
+        await discordClient.login(CONFIG.DISCORD_BOT_TOKEN);
+    } catch (error: any) {
+        log('ERROR', `Startup failed: ${error.message}`);
+        process.exit(1);
+    }
+}
+
+startup();
+
+function stopAfterCurrentPage(signal: string) {
+    if (shuttingDown) process.exit(1);
+    log('INFO', `${signal} received - stopping after the current page (send it again to quit immediately)`);
+    shuttingDown = true;
+}
+
+process.on('SIGTERM', () => stopAfterCurrentPage('SIGTERM'));
+process.on('SIGINT', () => stopAfterCurrentPage('SIGINT'));
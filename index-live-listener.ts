@@ -14,23 +14,42 @@
  * - customer_sentiment: Real-time sentiment analysis and churn signal detection
  * - risk_radar: Live inactivity tracking, churn risk scoring
  * - daily_analytics_summary: Real-time daily metrics aggregation
+ * - message_edits: Previous versions of edited client messages
+ * - conversations: Threads and forum posts inside client channels
+ * - channel_checkpoints: Last processed message per channel (gap recovery high-water mark)
+ * - processed_messages: Ledger of processed messages and their completed pipeline stages
+ * - team_roster_history: Team membership changes (env list, Discord roles, support_agents)
+ * - jobs: Durable queue of enrichment work (retries, dead-letter)
+ * - top_issues: Repeated question topics across clients
  * 
- * TABLES NOT ENRICHED (Historical backfill via index-historical-fetcher.ts):
- * - top_issues: Batch-processed repeated issue analysis (run as separate job)
+ * MODULES (each documents its part of the pipeline):
+ * - lib/channel-router.ts: Client channels, their client, segment and pipeline stages (config/routing-rules.json)
+ * - lib/team-roster.ts: Team membership (TEAM_MEMBER_IDS, TEAM_ROLE_IDS, support_agents)
+ * - lib/job-queue.ts, lib/message-jobs.ts: Durable message and edit jobs, retries and dead-letter
+ * - lib/keyed-serializer.ts: One piece of work at a time per client channel
+ * - lib/message-bursts.ts: Consecutive client messages merged into one unit
+ * - lib/message-ledger.ts: Finished pipeline stages per message (resumed messages are never counted twice)
+ * - lib/question-lifecycle.ts: Question statuses and their history
+ * - lib/analytics.ts: Sentiment, response quality, risk radar and daily summaries
+ * - lib/sla-monitor.ts, lib/escalations.ts: SLA events and escalation of unanswered urgent questions
+ * - lib/slash-commands.ts: /questions, /question and /risk
+ * - lib/replay.ts: Fixture recording and offline replay
+ * - lib/logger.ts, lib/metrics.ts, lib/health-server.ts: NDJSON logs, /healthz, /readyz and /metrics
+ * 
+ * Team replies are matched to open questions (reply chain, quoted links, thread, then AI) and move
+ * them along their lifecycle; reactions and slash commands do the same by hand. Client follow-ups
+ * can reopen or confirm a resolved question. Edits are re-triaged and deletes soft-delete what the
+ * message produced. Messages missed while offline are recovered from per-channel checkpoints
+ * (channel_checkpoints); older history is queued by index-historical-fetcher.ts.
  * 
  * Implements all requirements from the PRD:
- * - FR-01: Channel filtering (gca-, gci-, and gcp- only)
+ * - FR-01: Channel filtering (routing rules in config/routing-rules.json, including threads and forum posts)
  * - FR-02: Noise filtering (bots, self, short messages)
  * - FR-03: AI triage (Question/Bug/General Chat, High/Normal urgency)
  * - FR-04: Deep linking (Discord message URLs)
  * - FR-05: Inactivity tracking
  * - FR-06: Risk scoring
  * 
- * Configuration:
- * - DEBUG: Enable debug logging (default: false)
- * - CONSOLE_ONLY: Safe testing mode without database writes (default: false)
- * - TEAM_MEMBER_IDS: Comma-separated list of Discord user IDs for team members
- * 
  * HOW TO RUN:
  * 
  * 1. PRODUCTION MODE (with database writes):
@@ -40,7 +59,7 @@
  *    Listens for Discord messages and stores all data to database
  * 
  * 2. TESTING MODE (console only, no database writes):
- *    Enable CONSOLE_ONLY mode by editing CONFIG.CONSOLE_ONLY = true
+ *    $ PIPELINE_MODE=console npx tsx index-live-listener.ts
  *    Shows all actions that would happen without modifying the database
  *    Perfect for testing before going live
  * 
@@ -52,55 +71,210 @@
  *    $ TEAM_MEMBER_IDS="12345,67890,11111" npx tsx index-live-listener.ts
  *    Sets which Discord users are recognized as team members
  * 
+ * 5. RECORD MODE (live, plus fixture capture):
+ *    $ PIPELINE_MODE=record RECORD_PATH=fixtures/onboarding.ndjson npx tsx index-live-listener.ts
+ *    Writes every client channel message and AI response to the fixture file
+ * 
+ * 6. REPLAY MODE (offline regression run):
+ *    $ npm run replay -- fixtures/onboarding.ndjson
+ *    Replays the fixture with stubbed Discord and OpenRouter clients into a local SQLite
+ *    database and writes the resulting questions / sentiment / risk rows to a JSON report
+ *    No Discord, OpenRouter or Turso credentials are needed
+ * 
  * Environment Variables:
  * - DISCORD_BOT_TOKEN: Discord bot token (required)
  * - OPENROUTER_API_KEY: OpenRouter API key for openai/gpt-5-nano (required)
  * - OPENROUTER_MODEL: OpenRouter model to use (default: openai/gpt-5-nano)
+ * - MIN_MESSAGE_LENGTH: Shorter messages are skipped; for client messages, shorter bursts (default: 5)
+ * - BURST_WINDOW_SECONDS: Debounce window merging consecutive client messages (default: 30, 0 disables)
+ * - RESOLUTION_FOLLOW_UP_HOURS: How long after resolution a client follow-up can reopen or confirm a question (default: 72, 0 disables)
+ * - PIPELINE_MODE: live | console (no database writes) | record | replay (default: live)
  * - DEBUG: Enable debug logging (default: false)
  * - TEAM_MEMBER_IDS: Comma-separated Discord user IDs of team members
+ * - TEAM_ROLE_IDS: Comma-separated Discord role IDs of team roles
+ * - TEAM_ROSTER_REFRESH_MINUTES: How often roles and support_agents are re-read (default: 10)
+ * - REACTION_ACTIONS: Comma-separated emoji:action pairs (resolve|acknowledge|reopen|loom_helpful, default: ✅:resolve,👀:acknowledge,🔁:reopen,👍:loom_helpful)
+ * - SLASH_COMMAND_GUILD_ID: Register slash commands in this guild only (instant updates, default: global)
+ * - ROUTING_RULES_PATH: Routing rules file (default: config/routing-rules.json)
+ * - SLA_POLICIES_PATH: SLA policies file (default: config/sla-policies.json)
+ * - SLA_EVALUATION_MINUTES: How often questions are checked against SLA policies (default: 5, 0 disables)
+ * - ESCALATION_CHANNEL_ID: Internal channel for escalations of unanswered urgent questions (unset disables escalations)
+ * - ESCALATION_CHANNEL_MINUTES: Minutes without a team response before posting to the channel (default: 30)
+ * - ESCALATION_OWNER_MINUTES: Minutes before the client's owner gets a DM (default: 60)
+ * - ESCALATION_LEAD_MINUTES: Minutes before the leads get a DM (default: 120)
+ * - ESCALATION_LEAD_IDS: Comma-separated Discord user IDs of the leads
+ * - GAP_RECOVERY_MAX_MESSAGES: Max missed messages backfilled per channel on reconnect (default: 1000)
+ * - JOB_CONCURRENCY: Enrichment workers running in parallel (default: 3)
+ * - JOB_MAX_ATTEMPTS: Attempts before a job is dead-lettered (default: 5)
+ * - JOB_RETRY_BASE_SECONDS: First retry delay, doubled on every attempt (default: 30)
+ * - LOG_LEVEL: debug|info|warn|error (default: info, debug when DEBUG=true)
+ * - LOG_REDACT_CONTENT: Replace message text in logs with its length (default: true when NODE_ENV=production)
+ * - HEALTH_PORT: Port for /healthz, /readyz and /metrics (default: 8080, 0 disables the server)
+ * - SHUTDOWN_TIMEOUT_SECONDS: How long SIGTERM / SIGINT wait for in-flight work (default: 25)
+ * - RECORD_PATH: Fixture file written in record mode (default: fixtures/recording-<timestamp>.ndjson)
+ * - REPLAY_FIXTURE: Fixture replayed in replay mode (or the first command line argument)
+ * - REPLAY_REPORT: Report written in replay mode (default: <fixture>.report.json)
+ * - REPLAY_DATABASE_URL: SQLite database used in replay mode (default: a fresh temp file)
  * - TURSO_DATABASE_URL: Turso database URL (required)
  * - TURSO_AUTH_TOKEN: Turso authentication token (required)
  * 
  * WORKFLOW:
- * 1. Run index-historical-fetcher.ts ONCE to backfill database (2+ months of history)
- * 2. Run index-live-listener.ts to monitor new messages in real-time
- * 3. Both scripts enrich database with AI analysis (sentiment, quality, risk)
+ * 1. Run index-historical-fetcher.ts ONCE to queue the backfill (2+ months of history)
+ * 2. Run index-live-listener.ts to monitor new messages in real-time and work through the queue
+ * 3. Every message is enriched by the same pipeline (sentiment, quality, risk)
  * 4. Frontend queries database to display dashboards and metrics
  */
 
 import 'dotenv/config';
-import { Client, GatewayIntentBits, Events, Message, TextChannel } from 'discord.js';
+import fs from 'fs';
+import { AnyThreadChannel, ButtonInteraction, ChannelType, ChatInputCommandInteraction, Client, Collection, GatewayIntentBits, Events, GuildTextBasedChannel, Message, MessageFlags, MessageReaction, PartialMessage, Partials, SnowflakeUtil, Status, User } from 'discord.js';
 import { LibsqlError } from '@libsql/client';
 import OpenAI from 'openai';
-import { eq, and, gte, like, sql, desc } from 'drizzle-orm';
+import { eq, and, gte, sql, desc, inArray, isNull } from 'drizzle-orm';
 
 // Drizzle DB and Schema
-import { db, tursoClient } from './db';
-import { clients, questions } from './db/schema';
+import { closeDb, db, tursoClient } from './db';
+import { clients, questions, customer_sentiment, message_edits, topissuescomparison_job, conversations, channel_checkpoints, processed_messages } from './db/schema';
 
 // Analytics module for CSM feedback, sentiment, and repeated requests
-import { Analytics } from './lib/analytics';
+import { Analytics, TeamMessageIntent, isAIUnavailableError } from './lib/analytics';
 
 // URL extraction module for tracking non-Loom links
 import { URLExtractor } from './lib/url-extractor';
 
+// Durable job queue and worker pool for the enrichment pipeline
+import { Job, JobQueue } from './lib/job-queue';
+import { PROCESS_EDIT_JOB, PROCESS_MESSAGE_JOB, ProcessEditPayload, ProcessMessagePayload, enqueueEditJob, enqueueMessageJob } from './lib/message-jobs';
+import { burstDelaySeconds, collectBurst, hasBurstContinuation, isBurstCandidate, mergeBurst } from './lib/message-bursts';
+
+// Per-channel serialized execution
+import { KeyedSerializer } from './lib/keyed-serializer';
+
+// Durable record of processed messages and their pipeline stages
+import { LedgerEntry, MessageLedger, PipelineStage } from './lib/message-ledger';
+
+// Hot-reloaded routing rules deciding which channels are client channels
+import { ChannelRoute, ChannelRouter } from './lib/channel-router';
+
+// Team membership from env, Discord roles and support_agents
+import { TeamRoster } from './lib/team-roster';
+
+// Question status state machine and status history
+import { QuestionLifecycle, QuestionStatus, UNRESOLVED_STATUSES, canTransition } from './lib/question-lifecycle';
+
+// SLA policies and breach detection
+import { SLAMonitor } from './lib/sla-monitor';
+
+// Tiered escalation of unanswered urgent questions
+import { ESCALATION_CHECK_INTERVAL_MS, EscalationScheduler, buildEscalationEmbed } from './lib/escalations';
+
+// Structured NDJSON logging with per-message correlation ids
+import { createLogger, withLogContext } from './lib/logger';
+
+// Prometheus metrics and the health / readiness / metrics HTTP server
+import { instrumentDbClient, messagesFiltered, messagesProcessed, messagesReceived, registry, stageDuration, trackAICall } from './lib/metrics';
+import { HealthServer } from './lib/health-server';
+
+// Fixture recording and offline replay of the message pipeline
+import { FixtureRecorder, ReplaySession, buildReplayReport, defaultRecordPath, loadReplaySession, prepareReplayDatabase, recordAICalls } from './lib/replay';
+
+// Slash command definitions and replies for the question board
+import { SLASH_COMMANDS, buildClientRiskEmbed, buildQuestionsPage, buildTopRiskEmbed, parseQuestionsPageButton } from './lib/slash-commands';
+
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
 
+type ReactionAction = 'resolve' | 'acknowledge' | 'reopen' | 'loom_helpful';
+
+type PipelineMode = 'live' | 'console' | 'record' | 'replay';
+
+const PIPELINE_MODES: PipelineMode[] = ['live', 'console', 'record', 'replay'];
+
+const REACTION_ACTION_NAMES: ReactionAction[] = ['resolve', 'acknowledge', 'reopen', 'loom_helpful'];
+
+// Question status a matched team reply moves its questions to, by intent (answers resolve them)
+const INTENT_STATUSES: Record<Exclude<TeamMessageIntent, 'answer' | 'social'>, QuestionStatus> = {
+    acknowledgement: 'acknowledged',
+    scheduling: 'in_progress',
+    follow_up_question: 'waiting_on_client',
+};
+
+// Question status each workflow reaction moves the reacted question to
+const REACTION_STATUSES: Record<Exclude<ReactionAction, 'loom_helpful'>, QuestionStatus> = {
+    resolve: 'resolved',
+    acknowledge: 'acknowledged',
+    reopen: 'reopened',
+};
+
+/**
+ * Parse "emoji:action" pairs (comma-separated) into a reaction lookup
+ * Custom emoji can be given by name or id
+ */
+function parseReactionActions(value: string) {
+    const actions: Record<string, ReactionAction> = {};
+    for (const pair of value.split(',')) {
+        const separator = pair.lastIndexOf(':');
+        const emoji = pair.slice(0, separator).trim();
+        const action = pair.slice(separator + 1).trim() as ReactionAction;
+        if (emoji && REACTION_ACTION_NAMES.includes(action)) {
+            actions[emoji] = action;
+        }
+    }
+    return actions;
+}
+
 const CONFIG = {
     DISCORD_BOT_TOKEN: process.env.DISCORD_BOT_TOKEN!,
     OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY!,
     OPENROUTER_MODEL: process.env.OPENROUTER_MODEL || 'openai/gpt-5-nano',
     MIN_MESSAGE_LENGTH: parseInt(process.env.MIN_MESSAGE_LENGTH || '5'),
+    BURST_WINDOW_SECONDS: parseInt(process.env.BURST_WINDOW_SECONDS || '30'),
+    // How long after resolution a client follow-up can reopen or confirm a question
+    RESOLUTION_FOLLOW_UP_HOURS: parseInt(process.env.RESOLUTION_FOLLOW_UP_HOURS || '72'),
     DEBUG: process.env.DEBUG === 'true',
-    CONSOLE_ONLY: false, // Toggle for safe testing
+    // live | console (log writes instead of making them) | record (live + fixture capture) | replay (offline)
+    PIPELINE_MODE: (process.env.PIPELINE_MODE || 'live') as PipelineMode,
+    CONSOLE_ONLY: process.env.PIPELINE_MODE === 'console',
+    RECORD_PATH: process.env.RECORD_PATH || defaultRecordPath(),
+    REPLAY_FIXTURE: process.env.REPLAY_FIXTURE || process.argv[2] || null,
+    REPLAY_REPORT: process.env.REPLAY_REPORT || null,
     // Team member Discord user IDs (comma-separated) - used to detect team replies
     TEAM_MEMBER_IDS: process.env.TEAM_MEMBER_IDS ? process.env.TEAM_MEMBER_IDS.split(',').map(id => id.trim()) : [],
+    // Discord roles whose members are team members
+    TEAM_ROLE_IDS: process.env.TEAM_ROLE_IDS ? process.env.TEAM_ROLE_IDS.split(',').map(id => id.trim()) : [],
+    TEAM_ROSTER_REFRESH_MINUTES: parseInt(process.env.TEAM_ROSTER_REFRESH_MINUTES || '10'),
+    // How often open questions are checked against SLA policies (0 disables)
+    SLA_EVALUATION_MINUTES: parseInt(process.env.SLA_EVALUATION_MINUTES || '5'),
+    // Escalation of urgent questions without a team response (disabled without a channel)
+    ESCALATION_CHANNEL_ID: process.env.ESCALATION_CHANNEL_ID || null,
+    ESCALATION_CHANNEL_MINUTES: parseInt(process.env.ESCALATION_CHANNEL_MINUTES || '30'),
+    ESCALATION_OWNER_MINUTES: parseInt(process.env.ESCALATION_OWNER_MINUTES || '60'),
+    ESCALATION_LEAD_MINUTES: parseInt(process.env.ESCALATION_LEAD_MINUTES || '120'),
+    ESCALATION_LEAD_IDS: process.env.ESCALATION_LEAD_IDS ? process.env.ESCALATION_LEAD_IDS.split(',').map(id => id.trim()) : [],
+    // Reaction emoji that drive the question workflow
+    REACTION_ACTIONS: parseReactionActions(process.env.REACTION_ACTIONS || '✅:resolve,👀:acknowledge,🔁:reopen,👍:loom_helpful'),
+    // Register slash commands in one guild (instant) instead of globally
+    SLASH_COMMAND_GUILD_ID: process.env.SLASH_COMMAND_GUILD_ID || null,
+    // Upper bound on messages backfilled per channel after downtime
+    GAP_RECOVERY_MAX_MESSAGES: parseInt(process.env.GAP_RECOVERY_MAX_MESSAGES || '1000'),
+    // Enrichment job queue
+    JOB_CONCURRENCY: parseInt(process.env.JOB_CONCURRENCY || '3'),
+    JOB_MAX_ATTEMPTS: parseInt(process.env.JOB_MAX_ATTEMPTS || '5'),
+    JOB_RETRY_BASE_SECONDS: parseInt(process.env.JOB_RETRY_BASE_SECONDS || '30'),
+    // Health, readiness and metrics endpoints (0 disables)
+    HEALTH_PORT: parseInt(process.env.HEALTH_PORT || '8080'),
+
+    SHUTDOWN_TIMEOUT_SECONDS: parseInt(process.env.SHUTDOWN_TIMEOUT_SECONDS || '25'),
 };
 
-// Validate required environment variables
-const requiredVars = ['DISCORD_BOT_TOKEN', 'OPENROUTER_API_KEY'] as const;
+if (!PIPELINE_MODES.includes(CONFIG.PIPELINE_MODE)) {
+    console.error(`❌ Unknown PIPELINE_MODE: ${CONFIG.PIPELINE_MODE} (expected ${PIPELINE_MODES.join(', ')})`);
+    process.exit(1);
+}
+
+// Validate required environment variables (a replay only needs its fixture)
+const requiredVars = CONFIG.PIPELINE_MODE === 'replay' ? ['REPLAY_FIXTURE'] as const : ['DISCORD_BOT_TOKEN', 'OPENROUTER_API_KEY'] as const;
 for (const varName of requiredVars) {
     if (!CONFIG[varName]) {
         console.error(`❌ Missing required environment variable: ${varName}`);
@@ -112,23 +286,33 @@ for (const varName of requiredVars) {
 // INITIALIZE CLIENTS
 // ============================================================================
 
-const discordClient = new Client({
+// Replays serve the fixture's messages and recorded AI responses instead of the real clients
+const replaySession = CONFIG.PIPELINE_MODE === 'replay' ? loadReplaySession(CONFIG.REPLAY_FIXTURE!) : null;
+const fixtureRecorder = CONFIG.PIPELINE_MODE === 'record' ? new FixtureRecorder(CONFIG.RECORD_PATH) : null;
+
+const discordClient = replaySession ? replaySession.discord as unknown as Client : new Client({
     intents: [
         GatewayIntentBits.Guilds,
         GatewayIntentBits.GuildMessages,
         GatewayIntentBits.MessageContent,
+        GatewayIntentBits.GuildMessageReactions,
+        GatewayIntentBits.GuildMembers, // Privileged - team roles
     ],
+    // Edits and reactions on messages sent before the bot started are only delivered as partials
+    partials: [Partials.Message, Partials.Channel, Partials.Reaction, Partials.User],
 });
 
-const openaiClient = new OpenAI({
+const openaiClient = replaySession ? replaySession.openai as unknown as OpenAI : new OpenAI({
     apiKey: CONFIG.OPENROUTER_API_KEY,
     baseURL: 'https://openrouter.ai/api/v1',
     maxRetries: 2, // Default retry count for rate limits and connection errors
 });
+if (fixtureRecorder) recordAICalls(openaiClient, fixtureRecorder);
 
 // Initialize Analytics module
 const analytics = new Analytics(tursoClient, openaiClient, {
     openaiModel: CONFIG.OPENROUTER_MODEL,
+    throwOnAIUnavailable: true, // Message jobs are retried by the job queue
     debug: CONFIG.DEBUG,
     consoleOnly: CONFIG.CONSOLE_ONLY
 });
@@ -139,22 +323,168 @@ const urlExtractor = new URLExtractor(tursoClient, {
     consoleOnly: CONFIG.CONSOLE_ONLY
 });
 
-// Track processed messages to avoid duplicates
-const processedMessageIds = new Set<string>();
+// Initialize channel router (rules are loaded and watched on startup)
+const channelRouter = new ChannelRouter({
+    rulesPath: process.env.ROUTING_RULES_PATH,
+    debug: CONFIG.DEBUG
+});
+
+// Initialize team roster (history is loaded on startup, sources refreshed once ready)
+// Replays use the team members as they were classified when recording
+const teamRoster = new TeamRoster(tursoClient, {
+    staticMemberIds: replaySession ? replaySession.teamMemberIds : CONFIG.TEAM_MEMBER_IDS,
+    teamRoleIds: replaySession ? [] : CONFIG.TEAM_ROLE_IDS,
+    debug: CONFIG.DEBUG,
+    consoleOnly: CONFIG.CONSOLE_ONLY
+});
+let teamRosterRefreshTimer: NodeJS.Timeout | null = null;
+
+// Initialize processed message ledger
+const messageLedger = new MessageLedger(tursoClient, {
+    debug: CONFIG.DEBUG,
+    consoleOnly: CONFIG.CONSOLE_ONLY
+});
+
+// Initialize question lifecycle (status changes and their history)
+const questionLifecycle = new QuestionLifecycle(tursoClient, {
+    debug: CONFIG.DEBUG,
+    consoleOnly: CONFIG.CONSOLE_ONLY
+});
+
+// Initialize SLA monitor (policies are loaded and watched on startup, evaluated once ready)
+const slaMonitor = new SLAMonitor(tursoClient, {
+    policiesPath: process.env.SLA_POLICIES_PATH,
+    debug: CONFIG.DEBUG,
+    consoleOnly: CONFIG.CONSOLE_ONLY
+});
+let slaEvaluationTimer: NodeJS.Timeout | null = null;
+
+// Initialize escalation scheduler (checked every minute once ready)
+const escalationScheduler = new EscalationScheduler(tursoClient, {
+    channelId: CONFIG.ESCALATION_CHANNEL_ID,
+    leadIds: CONFIG.ESCALATION_LEAD_IDS,
+    afterMinutes: {
+        channel: CONFIG.ESCALATION_CHANNEL_MINUTES,
+        owner: CONFIG.ESCALATION_OWNER_MINUTES,
+        lead: CONFIG.ESCALATION_LEAD_MINUTES,
+    },
+    debug: CONFIG.DEBUG,
+    consoleOnly: CONFIG.CONSOLE_ONLY
+});
+let escalationTimer: NodeJS.Timeout | null = null;
+let escalationRunning = false; // A slow run (many DMs) must not overlap the next check
+
+// Serializes each client channel's enrichment, edits, deletes and board updates
+// (daily_analytics_summary / risk_radar writes); different channels run in parallel
+const channelSerializer = new KeyedSerializer();
+
+// Initialize job queue (workers start once the Discord client is ready)
+// Replays run one job at a time and never retry, so every run of a fixture is the same
+const jobQueue = new JobQueue(tursoClient, {
+    concurrency: replaySession ? 1 : CONFIG.JOB_CONCURRENCY,
+    maxAttempts: replaySession ? 1 : CONFIG.JOB_MAX_ATTEMPTS,
+    retryBaseSeconds: CONFIG.JOB_RETRY_BASE_SECONDS,
+    debug: CONFIG.DEBUG,
+    consoleOnly: CONFIG.CONSOLE_ONLY
+});
+
+// Only one gap recovery pass at a time (startup and reconnects can overlap)
+let gapRecoveryRunning = false;
+
+// Count failed queries (Drizzle shares this client)
+instrumentDbClient(tursoClient);
+
+// Ready once the roster is synced and the job workers are running
+let startupComplete = false;
+
+// Set on SIGTERM / SIGINT - Discord events are ignored while in-flight work drains
+let shuttingDown = false;
+
+const healthServer = new HealthServer(registry, {
+    port: CONFIG.HEALTH_PORT,
+    isReady: () => startupComplete,
+    isDraining: () => shuttingDown,
+    debug: CONFIG.DEBUG
+});
+
+healthServer.registerCheck('discord', () => {
+    if (discordClient.ws.status !== Status.Ready) {
+        throw new Error(`gateway ${Status[discordClient.ws.status]}`);
+    }
+    return `ping ${discordClient.ws.ping}ms`;
+});
+
+healthServer.registerCheck('database', async () => {
+    await db.run(sql`SELECT 1`);
+});
+
+// Gauges read at scrape time
+registry.gauge('caio_jobs', 'Jobs in the queue by status', async gauge => {
+    if (CONFIG.CONSOLE_ONLY) return;
+    const stats = await jobQueue.getStats();
+    for (const status of ['pending', 'running', 'completed', 'dead']) {
+        gauge.set({ status }, stats[status] ?? 0);
+    }
+});
+
+registry.gauge('caio_jobs_active', 'Jobs currently executing in this process', gauge => {
+    gauge.set({}, jobQueue.activeCount);
+});
+
+registry.gauge('caio_discord_gateway_up', 'Whether the Discord gateway connection is ready', gauge => {
+    gauge.set({}, discordClient.ws.status === Status.Ready ? 1 : 0);
+});
+
+registry.gauge('caio_discord_gateway_ping_seconds', 'Discord gateway heartbeat latency', gauge => {
+    if (discordClient.ws.ping >= 0) gauge.set({}, discordClient.ws.ping / 1000);
+});
 
 // ============================================================================
 // LOGGING
 // ============================================================================
 
+const logger = createLogger('listener');
+
 function log(level: 'INFO' | 'DEBUG' | 'ERROR' | 'WARN', message: string, data: any = null) {
-    const timestamp = new Date().toISOString();
-    const logMessage = `[${timestamp}] [${level}] ${message}`;
+    logger.log(level, message, data);
+}
 
-    if (data && (CONFIG.DEBUG || level === 'ERROR')) {
-        console.log(logMessage, JSON.stringify(data, null, 2));
-    } else {
-        console.log(logMessage);
-    }
+// ============================================================================
+// MESSAGE HELPERS
+// ============================================================================
+
+/**
+ * Build the Discord deep link for a message (FR-04)
+ */
+function buildDiscordLink(message: Message | PartialMessage) {
+    return `https://discord.com/channels/${message.guildId}/${message.channelId}/${message.id}`;
+}
+
+/**
+ * Client channel a message is attributed to
+ * For threads and forum posts this is the parent channel
+ */
+interface ClientChannelContext {
+    channelId: string;
+    channelName: string;
+    thread: AnyThreadChannel | null;
+    route: ChannelRoute;
+}
+
+/**
+ * Resolve the client channel context for the channel a message was posted in
+ * Threads and forum posts resolve to their parent client channel
+ */
+function resolveClientChannel(channel: GuildTextBasedChannel): ClientChannelContext | null {
+    const thread = channel.isThread() ? channel : null;
+    const clientChannel = thread ? thread.parent : channel;
+    if (!clientChannel) return null;
+
+    // FR-01: only channels matched by a routing rule (or override) are monitored
+    const route = channelRouter.resolve(clientChannel);
+    if (!route) return null;
+
+    return { channelId: clientChannel.id, channelName: clientChannel.name.toLowerCase(), thread, route };
 }
 
 // ============================================================================
@@ -164,9 +494,9 @@ function log(level: 'INFO' | 'DEBUG' | 'ERROR' | 'WARN', message: string, data:
 /**
  * Upsert client in database (FR-01)
  */
-async function upsertClient(channelId: string, channelName: string, clientName: string) {
+async function upsertClient(channelId: string, channelName: string, clientName: string, segment: string | null) {
     if (CONFIG.CONSOLE_ONLY) {
-        log('INFO', `[CONSOLE-ONLY] Would upsert client: ${clientName} (#${channelName})`);
+        log('INFO', `[CONSOLE-ONLY] Would upsert client: ${clientName} (#${channelName}, segment ${segment ?? 'none'})`);
         return;
     }
 
@@ -175,6 +505,7 @@ async function upsertClient(channelId: string, channelName: string, clientName:
             channel_id: channelId,
             channel_name: channelName,
             client_name: clientName,
+            segment,
             is_active: 1,
             created_at: Math.floor(Date.now() / 1000),
             updated_at: Math.floor(Date.now() / 1000),
@@ -183,6 +514,7 @@ async function upsertClient(channelId: string, channelName: string, clientName:
             set: {
                 channel_name: channelName,
                 client_name: clientName,
+                segment,
                 updated_at: Math.floor(Date.now() / 1000),
             }
         });
@@ -192,25 +524,15 @@ async function upsertClient(channelId: string, channelName: string, clientName:
 }
 
 /**
- * Check if message already exists in database
+ * Check if the same question was already posted in the last hour (double-posts)
+ * Message-level de-duplication is handled by the processed_messages ledger
  */
-async function messageExistsInDatabase(messageId: string, channelId: string, content: string) {
+async function isDuplicateQuestion(channelId: string, content: string) {
     if (CONFIG.CONSOLE_ONLY) return false;
 
     try {
         const now = Math.floor(Date.now() / 1000);
 
-        // 1. Check by message ID in link
-        const byId = await db.select({ id: questions.id })
-            .from(questions)
-            .where(and(
-                like(questions.discord_msg_link, `%/${messageId}`),
-                eq(questions.channel_id, channelId)
-            ))
-            .limit(1);
-        if (byId.length > 0) return true;
-
-        // 2. Check by content in last hour (prevent double-posts)
         const byContent = await db.select({ id: questions.id })
             .from(questions)
             .where(and(
@@ -223,30 +545,34 @@ async function messageExistsInDatabase(messageId: string, channelId: string, con
 
         return false;
     } catch (error: any) {
-        log('ERROR', `Failed to check message existence: ${error.message}`);
+        log('ERROR', `Failed to check for duplicate question: ${error.message}`);
         return false;
     }
 }
 
 /**
- * Get all unresolved questions for a channel
+ * Get all unresolved questions for a channel (or for every channel when channelId is null)
  */
-async function getUnresolvedQueries(channelId: string) {
+async function getUnresolvedQueries(channelId: string | null) {
     try {
         const results = await db.select()
             .from(questions)
             .where(and(
-                eq(questions.channel_id, channelId),
-                sql`${questions.status} IN ('open', 'pending')`
+                channelId ? eq(questions.channel_id, channelId) : undefined,
+                inArray(questions.status, UNRESOLVED_STATUSES),
+                isNull(questions.deleted_at)
             ))
             .orderBy(desc(questions.created_at));
 
         return results.map(row => ({
             id: row.id,
+            channelId: row.channel_id,
             content: row.content,
             summary: row.ai_summary,
             type: row.type,
             urgency: row.urgency,
+            priority: row.priority,
+            status: row.status,
             createdAt: row.created_at,
             link: row.discord_msg_link,
         }));
@@ -259,7 +585,7 @@ async function getUnresolvedQueries(channelId: string) {
 /**
  * Get recent message history from a Discord channel for context
  */
-async function getRecentChannelMessages(channel: TextChannel, limit = 20) {
+async function getRecentChannelMessages(channel: GuildTextBasedChannel, limit = 20) {
     try {
         const messages = await channel.messages.fetch({ limit });
 
@@ -267,7 +593,7 @@ async function getRecentChannelMessages(channel: TextChannel, limit = 20) {
         for (const [id, msg] of messages) {
             if (msg.author.bot || msg.content.length < 3) continue;
 
-            const authorType = isTeamMember(msg.author.id) ? '[TEAM]' : '[CLIENT]';
+            const authorType = isTeamMember(msg.author.id, msg.createdTimestamp) ? '[TEAM]' : '[CLIENT]';
             messageHistory.push({
                 author: `${authorType} ${msg.author.username}`,
                 content: msg.content.substring(0, 300),
@@ -291,12 +617,97 @@ async function getRecentChannelMessages(channel: TextChannel, limit = 20) {
 }
 
 /**
- * Use AI to match team member reply to queries they are tending to
- * Returns array of query IDs that the team member is addressing (can be multiple)
+ * How a team reply was matched to open questions
+ * Deterministic methods are tried first; 'ai' and 'ai_fallback' mark LLM guesses
+ */
+type MatchMethod = 'reply_reference' | 'message_link' | 'thread' | 'single_open' | 'general_keyword' | 'ai' | 'ai_fallback' | 'reaction' | 'command';
+
+interface ReplyMatch {
+    queryIds: number[];
+    method: MatchMethod | null;
+}
+
+// How many hops up a Discord reply chain to follow looking for a question
+const REPLY_CHAIN_MAX_DEPTH = 5;
+
+// Discord message links quoted in a message (stable, PTB and canary clients)
+const DISCORD_MESSAGE_LINK_REGEX = /https?:\/\/(?:ptb\.|canary\.)?discord(?:app)?\.com\/channels\/(?:\d+|@me)\/\d+\/(\d+)/gi;
+
+/**
+ * Questions raised by these messages - by question link, or through the ledger for messages
+ * merged into a question's burst
+ */
+async function findQuestionsForMessages(messageIds: string[], queries: any[]) {
+    const byLink = queries.filter(q => messageIds.includes(q.link.split('/').pop())).map(q => q.id);
+    if (byLink.length > 0) return byLink;
+
+    const questionIds = new Set((await messageLedger.findQuestionIds(messageIds)).values());
+    return queries.filter(q => questionIds.has(q.id)).map(q => q.id);
+}
+
+/**
+ * Match questions through Discord's native reply chain
+ * Follows message.reference upwards so replying to a follow-up still finds the original question
+ */
+async function matchByReplyReference(message: Message, queries: any[]) {
+    let current = message;
+
+    for (let depth = 0; depth < REPLY_CHAIN_MAX_DEPTH && current.reference?.messageId; depth++) {
+        try {
+            current = await current.fetchReference();
+        } catch (error: any) {
+            log('DEBUG', `Could not fetch referenced message ${current.reference?.messageId}: ${error.message}`);
+            break;
+        }
+
+        const matched = await findQuestionsForMessages([current.id], queries);
+        if (matched.length > 0) return matched;
+    }
+
+    return [];
+}
+
+/**
+ * Match questions whose Discord message links are quoted in the reply
+ */
+async function matchByMessageLinks(content: string, queries: any[]) {
+    const linkedMessageIds = new Set([...content.matchAll(DISCORD_MESSAGE_LINK_REGEX)].map(m => m[1]));
+    if (linkedMessageIds.size === 0) return [];
+
+    return findQuestionsForMessages([...linkedMessageIds], queries);
+}
+
+/**
+ * Match team member reply to queries they are tending to
+ * Returns the query IDs being addressed (can be multiple) and the method that matched them
+ * 
+ * Order: reply reference chain, quoted message links, thread membership,
+ * single open query, general keywords - the LLM is only asked when none of these apply
  */
-async function matchReplyToQuery(teamReply: string, queries: any[], channel: TextChannel | null = null) {
-    if (queries.length === 0) return [];
-    if (queries.length === 1) return [queries[0].id];
+async function matchReplyToQuery(message: Message, queries: any[], channel: GuildTextBasedChannel | null = null, threadQuestionIds: number[] = []): Promise<ReplyMatch> {
+    if (queries.length === 0) return { queryIds: [], method: null };
+
+    const teamReply = message.content;
+
+    const referenceMatches = await matchByReplyReference(message, queries);
+    if (referenceMatches.length > 0) {
+        log('DEBUG', `Reply reference resolved to ${referenceMatches.length} question(s)`);
+        return { queryIds: referenceMatches, method: 'reply_reference' };
+    }
+
+    const linkMatches = await matchByMessageLinks(teamReply, queries);
+    if (linkMatches.length > 0) {
+        log('DEBUG', `Quoted message link resolved to ${linkMatches.length} question(s)`);
+        return { queryIds: linkMatches, method: 'message_link' };
+    }
+
+    const threadMatches = queries.filter(q => threadQuestionIds.includes(q.id));
+    if (threadMatches.length > 0) {
+        log('DEBUG', `Thread reply detected - matching ${threadMatches.length} thread question(s)`);
+        return { queryIds: threadMatches.map(q => q.id), method: 'thread' };
+    }
+
+    if (queries.length === 1) return { queryIds: [queries[0].id], method: 'single_open' };
 
     const generalKeywords = ['all', 'everything', 'all of them', 'all issues', 'all queries',
         "i'll sort it all", "i'll handle everything", "all sorted",
@@ -306,7 +717,7 @@ async function matchReplyToQuery(teamReply: string, queries: any[], channel: Tex
 
     if (isGeneralResponse) {
         log('DEBUG', 'General response detected - matching all queries');
-        return queries.map(q => q.id);
+        return { queryIds: queries.map(q => q.id), method: 'general_keyword' };
     }
 
     try {
@@ -325,7 +736,7 @@ async function matchReplyToQuery(teamReply: string, queries: any[], channel: Tex
             `Query ${idx + 1} (ID: ${q.id}): ${q.summary || q.content.substring(0, 100)}`
         ).join('\n');
 
-        const completion = await openaiClient.chat.completions.create({
+        const completion = await trackAICall('reply_match', () => openaiClient.chat.completions.create({
             model: CONFIG.OPENROUTER_MODEL,
             messages: [
                 {
@@ -343,31 +754,39 @@ Return ONLY a JSON array of matched query IDs.`,
                 },
             ],
             max_completion_tokens: 500,
-        });
+        }), isAIUnavailableError);
 
         try {
             const content = completion.choices[0].message.content || '[]';
-            const matchedIds = JSON.parse(content.replace(/```json|```/g, '').trim());
-            return matchedIds;
+            const parsed = JSON.parse(content.replace(/```json|```/g, '').trim());
+            // The model can return ids that are not (or no longer) open - only open queries are matched
+            const openIds = new Set(queries.map(q => q.id));
+            const matchedIds = (Array.isArray(parsed) ? parsed : []).map(Number).filter(id => openIds.has(id));
+            return { queryIds: matchedIds, method: 'ai' };
         } catch (e) {
-            return queries.map(q => q.id);
+            return { queryIds: queries.map(q => q.id), method: 'ai_fallback' };
         }
     } catch (error: any) {
         log('ERROR', `Failed to match reply: ${error.message}`);
-        return queries.map(q => q.id);
+        // During an outage matching everything would wrongly resolve every open question - retry the job instead
+        if (isAIUnavailableError(error)) throw error;
+        return { queryIds: queries.map(q => q.id), method: 'ai_fallback' };
     }
 }
 
-function isTeamMember(userId: string) {
-    return CONFIG.TEAM_MEMBER_IDS.includes(userId);
+/**
+ * Check team membership, optionally as of a past time (ms timestamp) for messages being classified
+ */
+function isTeamMember(userId: string, at: number | null = null) {
+    return at ? teamRoster.wasTeamMemberAt(userId, Math.floor(at / 1000)) : teamRoster.isTeamMember(userId);
 }
 
 /**
  * Insert question in database
  */
 async function insertQuestion(channelId: string, message: Message, aiTriage: any) {
-    const timestamp = Math.floor(Date.now() / 1000);
-    const discordLink = `https://discord.com/channels/${message.guildId}/${message.channelId}/${message.id}`;
+    const timestamp = Math.floor(message.createdTimestamp / 1000);
+    const discordLink = buildDiscordLink(message);
 
     const questionData = {
         channel_id: channelId,
@@ -383,15 +802,7 @@ async function insertQuestion(channelId: string, message: Message, aiTriage: any
     };
 
     if (CONFIG.CONSOLE_ONLY) {
-        log('INFO', `[CONSOLE-ONLY] Would insert question into questions table:\n${JSON.stringify(questionData, null, 2)}`);
-        log('INFO', `📋 QUESTION BOARD UPDATE:\n{
-  "action": "insert_question",
-  "table": "questions",
-  "data": ${JSON.stringify(questionData, null, 2)},
-  "discord_link": "${discordLink}",
-  "client": "${message.author.username}",
-  "channel": "${channelId}"
-}`);
+        log('INFO', `[CONSOLE-ONLY] Would insert question into questions table`, { question: questionData, client: message.author.username });
         return null;
     }
 
@@ -399,15 +810,12 @@ async function insertQuestion(channelId: string, message: Message, aiTriage: any
         const result = await db.insert(questions).values(questionData).returning({ id: questions.id });
 
         if (result[0]?.id) {
-            log('INFO', `📋 QUESTION BOARD UPDATE:\n{
-  "action": "insert_question",
-  "table": "questions",
-  "question_id": ${result[0].id},
-  "data": ${JSON.stringify(questionData, null, 2)},
-  "discord_link": "${discordLink}",
-  "client": "${message.author.username}",
-  "channel": "${channelId}"
-}`);
+            log('INFO', `Question ${result[0].id} added to the board`, {
+                action: 'insert_question',
+                questionId: result[0].id,
+                question: questionData,
+                client: message.author.username,
+            });
         }
 
         return result[0]?.id;
@@ -419,311 +827,1594 @@ async function insertQuestion(channelId: string, message: Message, aiTriage: any
 
 /**
  * Mark queries as resolved
+ * resolvedAt defaults to now; backfilled replies pass their original timestamp
  */
-async function resolveQueries(queryIds: number[], resolverId: string, resolverName: string) {
-    const timestamp = Math.floor(Date.now() / 1000);
-
-    const updateData = {
-        status: 'resolved',
-        resolved_by_id: resolverId,
-        resolved_at: timestamp,
-        updated_at: timestamp,
-    };
-
-    if (CONFIG.CONSOLE_ONLY) {
-        log('INFO', `[CONSOLE-ONLY] Would resolve ${queryIds.length} queries:\n{
-  "action": "resolve_questions",
-  "table": "questions",
-  "query_ids": [${queryIds.join(', ')}],
-  "update_data": ${JSON.stringify(updateData, null, 2)},
-  "resolved_by": "${resolverName}" (${resolverId})
-}`);
-        return;
+async function resolveQueries(queryIds: number[], resolverId: string, resolverName: string, matchMethod: MatchMethod | null = null, resolvedAt: number | null = null) {
+    const resolved = await questionLifecycle.transition(queryIds, 'resolved', { id: resolverId, name: resolverName }, {
+        at: resolvedAt,
+        source: matchMethod === 'reaction' || matchMethod === 'command' ? matchMethod : 'reply',
+        matchMethod,
+    });
+
+    // The resolution time goes on the resolver's response as well
+    for (const queryId of resolved) {
+        await analytics.recordResolution(queryId, resolverId);
     }
+    return resolved;
+}
 
-    try {
-        await db.update(questions)
-            .set(updateData)
-            .where(sql`${questions.id} IN (${queryIds.join(',')})`);
-
-        log('INFO', `✅ QUESTION BOARD RESOLUTION:\n{
-  "action": "resolve_questions",
-  "table": "questions",
-  "query_ids": [${queryIds.join(', ')}],
-  "update_data": ${JSON.stringify(updateData, null, 2)},
-  "resolved_by": "${resolverName}" (${resolverId})
-}`);
-    } catch (error: any) {
-        log('ERROR', `Failed to resolve queries: ${error.message}`);
-    }
+/**
+ * Hand questions waiting on the client back to the team when the client posts
+ * Only the questions asked where the client posted (channel or thread), plus the thread's own question
+ */
+async function resumeWaitingQueries(channelId: string, message: Message<true>, threadQuestionId: number | null) {
+    const waitingIds = (await getUnresolvedQueries(channelId))
+        .filter(q => q.status === 'waiting_on_client')
+        .filter(q => q.link.includes(`/${message.channelId}/`) || q.id === threadQuestionId)
+        .map(q => q.id);
+    if (waitingIds.length === 0) return;
+
+    await questionLifecycle.transition(waitingIds, 'in_progress', { id: message.author.id, name: message.author.username }, {
+        at: Math.floor(message.createdTimestamp / 1000),
+        source: 'client_reply',
+    });
 }
 
 /**
- * Process a message with AI triage
+ * Questions of a channel resolved since the given time, most recent first
  */
-async function processMessageWithAI(message: Message, channel: TextChannel) {
+async function getRecentlyResolvedQueries(channelId: string, since: number) {
     try {
-        const recentMessages = await getRecentChannelMessages(channel, 5);
-        let contextStr = '';
-        if (recentMessages.length > 0) {
-            contextStr = `\nRecent context:\n${recentMessages.map(m => `${m.author}: ${m.content}`).join('\n')}`;
-        }
-
-        const completion = await openaiClient.chat.completions.create({
-            model: CONFIG.OPENROUTER_MODEL,
-            messages: [
-                {
-                    role: 'system',
-                    content: `Classify messages into Question, Bug, or General. Rate urgency as High or Normal. Rate priority as Critical, High, Medium, or Low. Respond with JSON: {"type":"Question|Bug|General", "urgency":"High|Normal", "priority":"Critical|High|Medium|Low", "summary":"..."}`,
-                },
-                {
-                    role: 'user',
-                    content: `Classify: "${message.content}"${contextStr}`,
-                },
-            ],
-            max_completion_tokens: 500,
-        });
+        const results = await db.select()
+            .from(questions)
+            .where(and(
+                eq(questions.channel_id, channelId),
+                eq(questions.status, 'resolved'),
+                gte(questions.resolved_at, since),
+                isNull(questions.deleted_at)
+            ))
+            .orderBy(desc(questions.resolved_at))
+            .limit(10);
 
-        try {
-            return JSON.parse(completion.choices[0].message.content || '{}');
-        } catch (e) {
-            return { type: 'General', urgency: 'Normal', priority: 'Low', summary: message.content.substring(0, 100) };
-        }
+        return results.map(row => ({
+            id: row.id,
+            content: row.content,
+            summary: row.ai_summary,
+            link: row.discord_msg_link,
+            createdAt: row.created_at,
+            resolvedById: row.resolved_by_id,
+            confirmedAt: row.client_confirmed_at,
+        }));
     } catch (error: any) {
-        log('ERROR', `AI processing failed: ${error.message}`);
-        return { type: 'General', urgency: 'Normal', priority: 'Low', summary: message.content.substring(0, 100) };
+        log('ERROR', `Failed to get recently resolved queries: ${error.message}`);
+        return [];
     }
 }
 
 /**
- * Show what would happen when team member matches unresolved queries in PRODUCTION MODE
- * This is a simulation for Console Only Mode to demonstrate query board updates
+ * Reopen a question and count the reopen against whoever resolved it
  */
-function showQueryResolutionSimulation(matchedQueries: any[], teamMemberId: string, teamMemberName: string) {
-    if (matchedQueries.length === 0) return;
-
-    const timestamp = Math.floor(Date.now() / 1000);
-    const matchedQueryIds = matchedQueries.map(q => q.id);
-
-    log('INFO', `\n${'='.repeat(80)}`);
-    log('INFO', `📊 [PRODUCTION MODE SIMULATION] QUERY BOARD RESOLUTION`);
-    log('INFO', `${'='.repeat(80)}`);
-    log('INFO', `🔄 BEFORE: Queries in "open" status`);
-    log('INFO', `${JSON.stringify(matchedQueries.map(q => ({
-        id: q.id,
-        ai_summary: q.summary || q.content.substring(0, 80),
-        type: q.type,
-        urgency: q.urgency,
-        status: 'open',
-        created_at: q.createdAt
-    })), null, 2)}`);
-
-    log('INFO', `\n✅ AFTER: Queries updated to "resolved" status`);
-    log('INFO', `${JSON.stringify(matchedQueries.map(q => ({
-        id: q.id,
-        ai_summary: q.summary || q.content.substring(0, 80),
-        type: q.type,
-        urgency: q.urgency,
-        status: 'resolved',
-        resolved_by_id: teamMemberId,
-        resolved_by_name: teamMemberName,
-        resolved_at: timestamp,
-        created_at: q.createdAt,
-        updated_at: timestamp
-    })), null, 2)}`);
-
-    log('INFO', `\n📋 TABLE UPDATE: questions`);
-    log('INFO', `UPDATE questions SET status='resolved', resolved_by_id='${teamMemberId}', resolved_at=${timestamp}, updated_at=${timestamp} WHERE id IN (${matchedQueryIds.join(', ')})`);
-    log('INFO', `${'='.repeat(80)}\n`);
+async function reopenQuery(question: { id: number; resolvedById: string | null }, actorId: string, actorName: string, source: string, at: number | null = null) {
+    const reopened = await questionLifecycle.transition([question.id], 'reopened', { id: actorId, name: actorName }, { at, source });
+    if (reopened.length > 0 && question.resolvedById) {
+        await analytics.recordReopenedResolution(question.id, question.resolvedById);
+    }
+    return reopened.length > 0;
 }
 
-// ============================================================================
-// EVENT HANDLERS
-// ============================================================================
+/**
+ * Find the recently resolved questions a client follow-up says are not fixed (reopen) or fixed (confirm)
+ * Follow-ups replying to the question (or to the team's reply to it) or posted in its thread are
+ * only checked against that question; other follow-ups are matched by meaning.
+ */
+async function findResolutionFollowUp(channelId: string, message: Message<true>, threadQuestionId: number | null) {
+    if (CONFIG.RESOLUTION_FOLLOW_UP_HOURS <= 0) return { reopen: null, confirm: null };
 
-discordClient.once(Events.ClientReady, readyClient => {
-    log('INFO', `\n${'='.repeat(80)}`);
-    log('INFO', `✅ Bot is ready! Logged in as ${readyClient.user.tag}`);
-    log('INFO', `🎧 Listening for messages in real-time...`);
-    if (CONFIG.CONSOLE_ONLY) {
-        log('INFO', `🚫 DATABASE SAVING IS DISABLED (Console Only Mode)`);
-    } else {
-        log('INFO', `💾 DATABASE SAVING IS ENABLED (Production Mode)`);
+    const since = Math.floor(message.createdTimestamp / 1000) - CONFIG.RESOLUTION_FOLLOW_UP_HOURS * 3600;
+    const resolved = await getRecentlyResolvedQueries(channelId, since);
+    if (resolved.length === 0) return { reopen: null, confirm: null };
+
+    let linkedIds = await matchByReplyReference(message, resolved);
+    if (linkedIds.length === 0 && threadQuestionId && resolved.some(q => q.id === threadQuestionId)) {
+        linkedIds = [threadQuestionId];
     }
-    log('INFO', `📝 Watching servers: ClientAcquisition.io`);
-    log('INFO', `📝 Channels: gca-*, gci-*, gcp-*`);
-    log('INFO', `${'='.repeat(80)}\n`);
-});
 
-discordClient.on(Events.MessageCreate, async message => {
-    if (message.author.bot || !message.guild) return;
+    const candidates = linkedIds.length > 0 ? resolved.filter(q => linkedIds.includes(q.id)) : resolved;
+    const { reopens, confirms } = await analytics.detectResolutionFollowUp(message, candidates, linkedIds.length > 0);
+    return {
+        reopen: resolved.find(q => q.id === reopens) ?? null,
+        confirm: resolved.find(q => q.id === confirms) ?? null,
+    };
+}
 
-    const allowedServers = ["ClientAcquisition.io"];
-    if (!allowedServers.includes(message.guild.name)) return;
+/**
+ * Recalculate the daily summaries of the days these questions were raised (resolution metrics changed)
+ */
+async function refreshQuestionSummaries(channelId: string, createdAts: number[], skipDate: string | null = null) {
+    const dates = new Set(createdAts.map(createdAt => new Date(createdAt * 1000).toISOString().split('T')[0]));
+    for (const date of dates) {
+        if (date !== skipDate) await analytics.calculateDailySummary(channelId, date);
+    }
+}
 
-    const channelName = (message.channel as TextChannel).name.toLowerCase();
-    if (!['gca-', 'gci-', 'gcp-'].some(p => channelName.startsWith(p))) return;
+/**
+ * Find the question that was created from a Discord message
+ */
+async function findQuestionByMessage(channelId: string, message: Message) {
+    try {
+        const result = await db.select()
+            .from(questions)
+            .where(and(
+                eq(questions.channel_id, channelId),
+                eq(questions.discord_msg_link, buildDiscordLink(message))
+            ))
+            .limit(1);
 
-    if (message.content.length < CONFIG.MIN_MESSAGE_LENGTH) return;
-    if (processedMessageIds.has(message.id)) return;
-    processedMessageIds.add(message.id);
+        return result[0] || null;
+    } catch (error: any) {
+        log('ERROR', `Failed to find question for message ${message.id}: ${error.message}`);
+        return null;
+    }
+}
 
+/**
+ * Get the last stored content of a message
+ * Used when the pre-edit version is no longer in the Discord cache
+ */
+async function getStoredMessageContent(messageId: string) {
     try {
-        const channelId = message.channelId;
-        const clientName = channelName.split('-')[1] || 'unknown';
+        const result = await db.select({ content: customer_sentiment.message_content })
+            .from(customer_sentiment)
+            .where(eq(customer_sentiment.message_id, messageId))
+            .limit(1);
 
-        log('INFO', `📬 New message from ${message.author.username} in #${channelName}`);
+        return result[0]?.content ?? null;
+    } catch (error: any) {
+        log('ERROR', `Failed to get stored content for message ${messageId}: ${error.message}`);
+        return null;
+    }
+}
 
-        // 1. Handle Team Member Replies
-        if (isTeamMember(message.author.id)) {
-            log('INFO', `👥 Team member reply detected from ${message.author.username}`);
-            log('INFO', `💬 Response content: "${message.content.substring(0, 150)}${message.content.length > 150 ? '...' : ''}"`);
-
-            const unresolved = await getUnresolvedQueries(channelId);
-
-            if (unresolved.length > 0) {
-                log('INFO', `📋 Found ${unresolved.length} unresolved queries in ${channelName}:\n${JSON.stringify(unresolved.map(q => ({
-                    id: q.id,
-                    summary: q.summary || q.content.substring(0, 80),
-                    type: q.type,
-                    urgency: q.urgency,
-                    status: 'open'
-                })), null, 2)}`);
-            } else {
-                log('INFO', `📋 Found ${unresolved.length} unresolved queries in ${channelName}`);
-            }
+/**
+ * Record the previous version of an edited client message
+ */
+async function recordMessageEdit(channelId: string, message: Message, previousContent: string | null, questionId: number | null) {
+    const editData = {
+        channel_id: channelId,
+        message_id: message.id,
+        question_id: questionId,
+        previous_content: previousContent,
+        new_content: message.content,
+        author_id: message.author.id,
+        author_username: message.author.username,
+        discord_msg_link: buildDiscordLink(message),
+        edited_at: Math.floor((message.editedTimestamp || Date.now()) / 1000),
+    };
 
-            // ALWAYS analyze response quality for training purposes
-            const contextMessage = unresolved.length > 0 ? unresolved[0].content : `Previous discussion in #${channelName}`;
-            const quality = await analytics.analyzeResponseQuality(message, contextMessage, channelId);
+    if (CONFIG.CONSOLE_ONLY) {
+        log('INFO', `[CONSOLE-ONLY] Would record message edit`, { edit: editData });
+        return;
+    }
 
-            if (quality) {
-                log('INFO', `📊 RESPONSE QUALITY ANALYSIS:\n${JSON.stringify(quality, null, 2)}`);
-            } else {
-                log('WARN', `⚠️ Response quality analysis returned null for team member response in #${channelName}`);
-            }
+    try {
+        // A retried edit job finds its edit already recorded
+        const recorded = await db.select({ id: message_edits.id })
+            .from(message_edits)
+            .where(and(eq(message_edits.message_id, editData.message_id), eq(message_edits.edited_at, editData.edited_at)))
+            .limit(1);
+        if (recorded.length > 0) return;
+
+        await db.insert(message_edits).values(editData);
+    } catch (error: any) {
+        log('ERROR', `Failed to record message edit: ${error.message}`);
+    }
+}
+
+/**
+ * Update a question with the edited message content and its new AI triage
+ */
+async function updateQuestionFromEdit(questionId: number, message: Message, aiTriage: any) {
+    const updateData = {
+        content: message.content,
+        type: aiTriage.type,
+        urgency: aiTriage.urgency,
+        priority: aiTriage.priority || (aiTriage.urgency === 'High' ? 'High' : 'Medium'),
+        ai_summary: aiTriage.summary,
+        updated_at: Math.floor(Date.now() / 1000),
+    };
+
+    if (CONFIG.CONSOLE_ONLY) {
+        log('INFO', `[CONSOLE-ONLY] Would update question ${questionId} after edit`, { update: updateData });
+        return;
+    }
+
+    try {
+        await db.update(questions)
+            .set(updateData)
+            .where(eq(questions.id, questionId));
+
+        log('INFO', `Question ${questionId} updated after edit`, { action: 'update_question_after_edit', questionId, update: updateData });
+    } catch (error: any) {
+        log('ERROR', `Failed to update question after edit: ${error.message}`);
+    }
+}
+
+/**
+ * Find the question created from the message a thread was started from
+ * Message threads share their starter message's id; forum posts start with a message inside the thread
+ */
+async function findThreadStarterQuestion(channelId: string, thread: AnyThreadChannel) {
+    const starterLinks = [
+        `https://discord.com/channels/${thread.guildId}/${channelId}/${thread.id}`,
+        `https://discord.com/channels/${thread.guildId}/${thread.id}/${thread.id}`,
+    ];
+
+    try {
+        const result = await db.select({ id: questions.id })
+            .from(questions)
+            .where(and(
+                eq(questions.channel_id, channelId),
+                inArray(questions.discord_msg_link, starterLinks),
+                isNull(questions.deleted_at)
+            ))
+            .limit(1);
+
+        return result[0]?.id ?? null;
+    } catch (error: any) {
+        log('ERROR', `Failed to find starter question for thread ${thread.id}: ${error.message}`);
+        return null;
+    }
+}
+
+/**
+ * Link a conversation to the question that started it (first link wins)
+ */
+async function linkConversationQuestion(threadId: string, questionId: number) {
+    if (CONFIG.CONSOLE_ONLY) {
+        log('INFO', `[CONSOLE-ONLY] Would link conversation ${threadId} to question ${questionId}`);
+        return;
+    }
+
+    try {
+        await db.update(conversations)
+            .set({ question_id: questionId, updated_at: Math.floor(Date.now() / 1000) })
+            .where(and(
+                eq(conversations.thread_id, threadId),
+                isNull(conversations.question_id)
+            ));
+    } catch (error: any) {
+        log('ERROR', `Failed to link conversation ${threadId} to question ${questionId}: ${error.message}`);
+    }
+}
+
+/**
+ * Record activity on a thread or forum post and return its conversation row
+ * The first time a thread is seen it is linked to the question that started it
+ */
+async function upsertConversation(channelId: string, thread: AnyThreadChannel, message: Message) {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const messageTimestamp = Math.floor(message.createdTimestamp / 1000);
+    const parentType = thread.parent?.type;
+    const threadType = parentType === ChannelType.GuildForum || parentType === ChannelType.GuildMedia ? 'forum_post' : 'thread';
+
+    if (CONFIG.CONSOLE_ONLY) {
+        log('INFO', `[CONSOLE-ONLY] Would upsert conversation for ${threadType} "${thread.name}" (${thread.id}) in ${channelId}`);
+        return null;
+    }
+
+    try {
+        const result = await db.insert(conversations).values({
+            thread_id: thread.id,
+            channel_id: channelId,
+            starter_message_id: thread.id,
+            thread_name: thread.name,
+            thread_type: threadType,
+            owner_id: thread.ownerId,
+            message_count: 1,
+            last_message_at: messageTimestamp,
+            created_at: Math.floor((thread.createdTimestamp || message.createdTimestamp) / 1000),
+            updated_at: timestamp,
+        }).onConflictDoUpdate({
+            target: conversations.thread_id,
+            set: {
+                thread_name: thread.name,
+                message_count: sql`${conversations.message_count} + 1`,
+                last_message_at: messageTimestamp,
+                updated_at: timestamp,
+            }
+        }).returning();
+
+        const conversation = result[0];
+        if (conversation && !conversation.question_id) {
+            const starterQuestionId = await findThreadStarterQuestion(channelId, thread);
+            if (starterQuestionId) {
+                await linkConversationQuestion(thread.id, starterQuestionId);
+                conversation.question_id = starterQuestionId;
+                log('INFO', `Conversation ${thread.id} linked to question ${starterQuestionId}`);
+            }
+        }
+
+        return conversation ?? null;
+    } catch (error: any) {
+        log('ERROR', `Failed to upsert conversation ${thread.id}: ${error.message}`);
+        return null;
+    }
+}
+
+/**
+ * Soft-delete the analytics rows linked to deleted Discord messages
+ * Rows are kept for auditing but drop out of open-question, risk and summary queries
+ */
+async function softDeleteMessages(channelId: string, messages: Array<Message | PartialMessage>) {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const messageIds = messages.map(m => m.id);
+    const messageLinks = messages.map(m => buildDiscordLink(m));
+
+    if (CONFIG.CONSOLE_ONLY) {
+        log('INFO', `[CONSOLE-ONLY] Would soft-delete rows for ${messageIds.length} deleted messages in ${channelId}`, { messageIds });
+        return null;
+    }
+
+    try {
+        const deletedQuestions = await db.update(questions)
+            .set({ deleted_at: timestamp, updated_at: timestamp })
+            .where(and(
+                eq(questions.channel_id, channelId),
+                inArray(questions.discord_msg_link, messageLinks),
+                isNull(questions.deleted_at)
+            ))
+            .returning({ id: questions.id });
+
+        const deletedSentiments = await db.update(customer_sentiment)
+            .set({ deleted_at: timestamp })
+            .where(and(
+                inArray(customer_sentiment.message_id, messageIds),
+                isNull(customer_sentiment.deleted_at)
+            ))
+            .returning({ id: customer_sentiment.id });
+
+        await db.update(topissuescomparison_job)
+            .set({ deleted_at: timestamp })
+            .where(and(
+                inArray(topissuescomparison_job.message_id, messageIds),
+                isNull(topissuescomparison_job.deleted_at)
+            ));
+
+        // No longer counted in the daily client message totals
+        await db.update(processed_messages)
+            .set({ deleted_at: timestamp, updated_at: timestamp })
+            .where(and(
+                inArray(processed_messages.message_id, messageIds),
+                isNull(processed_messages.deleted_at)
+            ));
+
+        return {
+            questionIds: deletedQuestions.map(q => q.id),
+            sentimentCount: deletedSentiments.length,
+        };
+    } catch (error: any) {
+        log('ERROR', `Failed to soft-delete messages: ${error.message}`);
+        return null;
+    }
+}
+
+/**
+ * Handle deleted messages for a client channel
+ * Marks linked rows deleted, then recomputes risk radar and the daily summaries they counted towards
+ */
+async function handleDeletedMessages(channelId: string, channelName: string, messages: Array<Message | PartialMessage>) {
+    log('INFO', `${messages.length} message(s) deleted in #${channelName}`, { messageIds: messages.map(m => m.id) });
+
+    const result = await softDeleteMessages(channelId, messages);
+    if (!result || (result.questionIds.length === 0 && result.sentimentCount === 0)) return;
+
+    log('INFO', `Soft-deleted rows for deleted messages`, {
+        channelId,
+        questionIds: result.questionIds,
+        sentimentRows: result.sentimentCount,
+    });
+
+    await analytics.calculateRiskRadar(channelId);
+
+    // Recompute the summary for every day a deleted message was posted on
+    const dates = new Set(messages.map(m =>
+        new Date(Number(SnowflakeUtil.timestampFrom(m.id))).toISOString().split('T')[0]
+    ));
+    for (const date of dates) {
+        await analytics.calculateDailySummary(channelId, date);
+    }
+    log('INFO', `Risk radar and daily summary recalculated for ${channelId}`, { dates: [...dates] });
+}
+
+/**
+ * Apply a workflow reaction to the message it was added to
+ * Team reactions move the linked question through the same paths as replies;
+ * client reactions on team Loom messages record Loom effectiveness
+ */
+async function handleWorkflowReaction(reaction: MessageReaction, user: User, message: Message<true>, clientChannel: ClientChannelContext) {
+    const emoji = reaction.emoji.id && CONFIG.REACTION_ACTIONS[reaction.emoji.id] ? reaction.emoji.id : reaction.emoji.name;
+    const action = emoji ? CONFIG.REACTION_ACTIONS[emoji] : undefined;
+    if (!action) return;
+
+    const { channelId, channelName } = clientChannel;
+
+    if (!isTeamMember(user.id)) {
+        if (action !== 'loom_helpful' || !isTeamMember(message.author.id)) return;
+
+        const loomResult = await analytics.markLoomHelpful(message, channelId, Math.floor(Date.now() / 1000));
+        if (loomResult) {
+            log('INFO', `Loom acknowledged by ${user.username} in #${channelName}`, { loom: loomResult });
+        }
+        return;
+    }
+
+    if (action === 'loom_helpful') return;
+
+    const question = await findQuestionByMessage(channelId, message);
+    if (!question || question.deleted_at) {
+        log('DEBUG', `Reaction ${emoji} from ${user.username} is not on a tracked question`);
+        return;
+    }
+
+    log('INFO', `Reaction from ${user.username} on question ${question.id} in #${channelName} (${action})`, { emoji });
+
+    const target = REACTION_STATUSES[action];
+    if (!canTransition(question.status, target)) {
+        log('DEBUG', `Question ${question.id} is ${question.status} - ignoring ${action}`);
+        return;
+    }
+
+    if (target === 'resolved') {
+        await resolveQueries([question.id], user.id, user.username, 'reaction');
+    } else if (target === 'reopened') {
+        await reopenQuery({ id: question.id, resolvedById: question.resolved_by_id }, user.id, user.username, 'reaction');
+    } else {
+        await questionLifecycle.transition([question.id], target, { id: user.id, name: user.username }, { source: 'reaction' });
+    }
+
+    await analytics.calculateDailySummary(channelId, new Date(question.created_at * 1000).toISOString().split('T')[0]);
+}
+
+/**
+ * Process a message with AI triage
+ */
+async function processMessageWithAI(message: Message, channel: GuildTextBasedChannel) {
+    try {
+        const recentMessages = await getRecentChannelMessages(channel, 5);
+        let contextStr = '';
+        if (recentMessages.length > 0) {
+            contextStr = `\nRecent context:\n${recentMessages.map(m => `${m.author}: ${m.content}`).join('\n')}`;
+        }
+
+        const completion = await trackAICall('triage', () => openaiClient.chat.completions.create({
+            model: CONFIG.OPENROUTER_MODEL,
+            messages: [
+                {
+                    role: 'system',
+                    content: `Classify messages into Question, Bug, or General. Rate urgency as High or Normal. Rate priority as Critical, High, Medium, or Low. Respond with JSON: {"type":"Question|Bug|General", "urgency":"High|Normal", "priority":"Critical|High|Medium|Low", "summary":"..."}`,
+                },
+                {
+                    role: 'user',
+                    content: `Classify: "${message.content}"${contextStr}`,
+                },
+            ],
+            max_completion_tokens: 500,
+        }), isAIUnavailableError);
+
+        try {
+            return JSON.parse(completion.choices[0].message.content || '{}');
+        } catch (e) {
+            return { type: 'General', urgency: 'Normal', priority: 'Low', summary: message.content.substring(0, 100) };
+        }
+    } catch (error: any) {
+        log('ERROR', `AI processing failed: ${error.message}`);
+        if (isAIUnavailableError(error)) throw error;
+        return { type: 'General', urgency: 'Normal', priority: 'Low', summary: message.content.substring(0, 100) };
+    }
+}
+
+/**
+ * Show what would happen when team member matches unresolved queries in PRODUCTION MODE
+ * This is a simulation for Console Only Mode to demonstrate query board updates
+ */
+function showQueryResolutionSimulation(matchedQueries: any[], teamMemberId: string, teamMemberName: string) {
+    if (matchedQueries.length === 0) return;
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    const matchedQueryIds = matchedQueries.map(q => q.id);
+
+    log('INFO', `[PRODUCTION MODE SIMULATION] Query board resolution`, {
+        before: matchedQueries.map(q => ({
+            id: q.id,
+            ai_summary: q.summary || q.content.substring(0, 80),
+            type: q.type,
+            urgency: q.urgency,
+            status: 'open',
+            created_at: q.createdAt
+        })),
+        after: matchedQueries.map(q => ({
+            id: q.id,
+            status: 'resolved',
+            resolved_by_id: teamMemberId,
+            resolved_by_name: teamMemberName,
+            resolved_at: timestamp,
+            updated_at: timestamp
+        })),
+        sql: `UPDATE questions SET status='resolved', resolved_by_id='${teamMemberId}', resolved_at=${timestamp}, updated_at=${timestamp} WHERE id IN (${matchedQueryIds.join(', ')})`,
+    });
+}
+
+// ============================================================================
+// GAP RECOVERY
+// ============================================================================
+
+/**
+ * Get the high-water mark for a Discord channel, thread or forum post
+ */
+async function getCheckpoint(discordChannelId: string) {
+    if (CONFIG.CONSOLE_ONLY) return null;
+
+    try {
+        const result = await db.select()
+            .from(channel_checkpoints)
+            .where(eq(channel_checkpoints.discord_channel_id, discordChannelId))
+            .limit(1);
+
+        return result[0] || null;
+    } catch (error: any) {
+        log('ERROR', `Failed to get checkpoint for ${discordChannelId}: ${error.message}`);
+        return null;
+    }
+}
+
+/**
+ * Move a channel's high-water mark forward (never backwards)
+ * Snowflakes are compared numerically so out-of-order writes keep the newest id
+ */
+async function saveCheckpoint(discordChannelId: string, channelId: string, messageId: string) {
+    const checkpointData = {
+        discord_channel_id: discordChannelId,
+        channel_id: channelId,
+        last_message_id: messageId,
+        last_message_at: Math.floor(SnowflakeUtil.timestampFrom(messageId) / 1000),
+        updated_at: Math.floor(Date.now() / 1000),
+    };
+
+    if (CONFIG.CONSOLE_ONLY) {
+        log('DEBUG', `[CONSOLE-ONLY] Would save checkpoint ${messageId} for ${discordChannelId}`);
+        return;
+    }
+
+    try {
+        await db.insert(channel_checkpoints).values(checkpointData).onConflictDoUpdate({
+            target: channel_checkpoints.discord_channel_id,
+            set: {
+                last_message_id: checkpointData.last_message_id,
+                last_message_at: checkpointData.last_message_at,
+                updated_at: checkpointData.updated_at,
+            },
+            setWhere: sql`CAST(${channel_checkpoints.last_message_id} AS INTEGER) < CAST(excluded.last_message_id AS INTEGER)`,
+        });
+    } catch (error: any) {
+        log('ERROR', `Failed to save checkpoint for ${discordChannelId}: ${error.message}`);
+    }
+}
+
+/**
+ * Fetch the messages posted in a channel after its checkpoint, oldest first
+ * Threads without a checkpoint of their own start from the parent channel's mark
+ */
+async function fetchMissedMessages(channel: GuildTextBasedChannel, clientChannel: ClientChannelContext) {
+    let after: string | undefined = (await getCheckpoint(channel.id))?.last_message_id;
+    if (!after && clientChannel.thread) {
+        after = (await getCheckpoint(clientChannel.channelId))?.last_message_id;
+    }
+
+    // First time this channel is seen: start tracking from its latest message
+    if (!after) {
+        if (channel.lastMessageId) {
+            await saveCheckpoint(channel.id, clientChannel.channelId, channel.lastMessageId);
+            log('INFO', `Checkpoint initialized for #${channel.name} at ${channel.lastMessageId}`);
+        }
+        return [];
+    }
+
+    const missed: Message<true>[] = [];
+    while (missed.length < CONFIG.GAP_RECOVERY_MAX_MESSAGES) {
+        const batch: Collection<string, Message<true>> = await channel.messages.fetch({ after, limit: 100 });
+        if (batch.size === 0) break;
+
+        const sorted = [...batch.values()].sort((a, b) => a.createdTimestamp - b.createdTimestamp);
+        missed.push(...sorted);
+        after = sorted[sorted.length - 1].id;
+
+        if (batch.size < 100) break;
+    }
+
+    if (missed.length >= CONFIG.GAP_RECOVERY_MAX_MESSAGES) {
+        log('WARN', `Gap in #${channel.name} exceeds ${CONFIG.GAP_RECOVERY_MAX_MESSAGES} messages - only the oldest were backfilled`);
+    }
+
+    return missed.slice(0, CONFIG.GAP_RECOVERY_MAX_MESSAGES);
+}
+
+/**
+ * Backfill messages posted while the listener was offline or disconnected
+ * Missed messages from all client channels and their active threads are processed
+ * together in chronological order so replies are matched after the questions they answer
+ */
+async function recoverMissedMessages(readyClient: Client<true>) {
+    if (gapRecoveryRunning) return;
+    gapRecoveryRunning = true;
+
+    try {
+        for (const guild of readyClient.guilds.cache.values()) {
+            const watchedChannels: GuildTextBasedChannel[] = [];
+            for (const channel of guild.channels.cache.values()) {
+                if ((channel.type === ChannelType.GuildText || channel.type === ChannelType.GuildAnnouncement) && resolveClientChannel(channel)) {
+                    watchedChannels.push(channel);
+                }
+            }
+            if (watchedChannels.length === 0) continue;
+
+            const { threads } = await guild.channels.fetchActiveThreads();
+            for (const thread of threads.values()) {
+                if (resolveClientChannel(thread)) watchedChannels.push(thread);
+            }
+
+            const missed: Message<true>[] = [];
+            for (const channel of watchedChannels) {
+                const clientChannel = resolveClientChannel(channel)!;
+                try {
+                    missed.push(...await fetchMissedMessages(channel, clientChannel));
+                } catch (error: any) {
+                    log('ERROR', `Failed to fetch missed messages in #${channel.name}: ${error.message}`);
+                }
+            }
+
+            if (missed.length === 0) {
+                log('INFO', `Gap recovery: no missed messages in ${guild.name}`);
+                continue;
+            }
+
+            missed.sort((a, b) => a.createdTimestamp - b.createdTimestamp);
+            log('INFO', `Gap recovery: backfilling ${missed.length} missed messages in ${guild.name}`);
+
+            for (const message of missed) {
+                if (shuttingDown) return;
+                await withLogContext({ correlationId: message.id }, () => handleIncomingMessage(message, true));
+            }
+
+            log('INFO', `Gap recovery complete for ${guild.name}`);
+        }
+    } catch (error: any) {
+        log('ERROR', `Gap recovery failed: ${error.message}`);
+    } finally {
+        gapRecoveryRunning = false;
+    }
+}
+
+// ============================================================================
+// SLASH COMMANDS
+// ============================================================================
+
+/**
+ * Get a question by ID (soft-deleted questions are ignored)
+ */
+async function getQuestionById(questionId: number) {
+    try {
+        const result = await db.select()
+            .from(questions)
+            .where(and(eq(questions.id, questionId), isNull(questions.deleted_at)))
+            .limit(1);
+
+        return result[0] || null;
+    } catch (error: any) {
+        log('ERROR', `Failed to get question ${questionId}: ${error.message}`);
+        return null;
+    }
+}
+
+/**
+ * Change the priority of a question
+ */
+async function setQuestionPriority(questionId: number, priority: string, actorId: string, actorName: string) {
+    const updateData = {
+        priority,
+        updated_at: Math.floor(Date.now() / 1000),
+    };
+
+    if (CONFIG.CONSOLE_ONLY) {
+        log('INFO', `[CONSOLE-ONLY] Would set priority of question ${questionId} to ${priority} (by ${actorName})`);
+        return;
+    }
+
+    try {
+        await db.update(questions)
+            .set(updateData)
+            .where(eq(questions.id, questionId));
+
+        log('INFO', `Question ${questionId} priority set to ${priority}`, {
+            action: 'set_priority',
+            questionId,
+            update: updateData,
+            updatedBy: actorName,
+            updatedById: actorId,
+        });
+    } catch (error: any) {
+        log('ERROR', `Failed to set question priority: ${error.message}`);
+    }
+}
+
+/**
+ * Register slash commands (guild-scoped when SLASH_COMMAND_GUILD_ID is set)
+ */
+async function registerSlashCommands(readyClient: Client<true>) {
+    try {
+        if (CONFIG.SLASH_COMMAND_GUILD_ID) {
+            await readyClient.application.commands.set(SLASH_COMMANDS, CONFIG.SLASH_COMMAND_GUILD_ID);
+        } else {
+            await readyClient.application.commands.set(SLASH_COMMANDS);
+        }
+        log('INFO', `Registered ${SLASH_COMMANDS.length} slash commands${CONFIG.SLASH_COMMAND_GUILD_ID ? ` in guild ${CONFIG.SLASH_COMMAND_GUILD_ID}` : ' globally'}`);
+    } catch (error: any) {
+        log('ERROR', `Failed to register slash commands: ${error.message}`);
+    }
+}
+
+/**
+ * Handle /questions, /question and /risk
+ */
+async function handleSlashCommand(interaction: ChatInputCommandInteraction<'cached'>) {
+    // Every command waits on the database (and /question on a busy channel) - defer so the interaction does not expire
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    const subcommand = interaction.options.getSubcommand();
+    const clientChannel = interaction.channel ? resolveClientChannel(interaction.channel) : null;
+
+    if (interaction.commandName === 'questions' && subcommand === 'open') {
+        const scope = interaction.options.getString('scope') === 'all' ? 'all' : 'channel';
+        if (scope === 'channel' && !clientChannel) {
+            await interaction.editReply({ content: 'This is not a client channel - use `scope: All channels`.' });
+            return;
+        }
+
+        const channelId = scope === 'all' ? 'all' : clientChannel!.channelId;
+        const unresolved = await getUnresolvedQueries(scope === 'all' ? null : channelId);
+        await interaction.editReply(buildQuestionsPage(unresolved, 0, scope, channelId));
+        return;
+    }
+
+    if (interaction.commandName === 'question') {
+        const questionId = interaction.options.getInteger('id', true);
+        const question = await getQuestionById(questionId);
+        if (!question) {
+            await interaction.editReply({ content: `Question #${questionId} not found.` });
+            return;
+        }
+
+        const target = subcommand === 'resolve' ? 'resolved'
+            : subcommand === 'reopen' ? 'reopened'
+            : subcommand === 'status' ? interaction.options.getString('state', true) as QuestionStatus
+            : null;
+        if (target && !canTransition(question.status, target)) {
+            await interaction.editReply({ content: `Question #${questionId} cannot move from ${question.status} to ${target}.` });
+            return;
+        }
+
+        const { user } = interaction;
+        await channelSerializer.run(question.channel_id, async () => {
+            if (target === 'resolved') {
+                await resolveQueries([questionId], user.id, user.username, 'command');
+            } else if (target === 'reopened') {
+                await reopenQuery({ id: questionId, resolvedById: question.resolved_by_id }, user.id, user.username, 'command');
+            } else if (target) {
+                await questionLifecycle.transition([questionId], target, { id: user.id, name: user.username }, { source: 'command' });
+            } else if (subcommand === 'priority') {
+                await setQuestionPriority(questionId, interaction.options.getString('level', true), user.id, user.username);
+            }
+
+            await analytics.calculateDailySummary(question.channel_id, new Date(question.created_at * 1000).toISOString().split('T')[0]);
+        });
+
+        await interaction.editReply({ content: `Question #${questionId}: ${subcommand} done.` });
+        return;
+    }
+
+    if (interaction.commandName === 'risk' && subcommand === 'client') {
+        const selectedChannel = interaction.options.getChannel('channel');
+        const channelId = selectedChannel?.id ?? clientChannel?.channelId;
+        const profile = channelId ? await analytics.getClientRiskProfile(channelId) : null;
+        if (!profile) {
+            await interaction.editReply({ content: 'No client data for that channel.' });
+            return;
+        }
+
+        await interaction.editReply({ embeds: [buildClientRiskEmbed(profile)] });
+        return;
+    }
+
+    if (interaction.commandName === 'risk' && subcommand === 'top') {
+        const limit = interaction.options.getInteger('limit') ?? 10;
+        const atRisk = await analytics.getHighChurnRiskClients();
+        await interaction.editReply({ embeds: [buildTopRiskEmbed(atRisk.slice(0, limit))] });
+    }
+}
+
+/**
+ * Handle the previous/next buttons of /questions open
+ */
+async function handleQuestionsPageButton(interaction: ButtonInteraction<'cached'>) {
+    const pageRequest = parseQuestionsPageButton(interaction.customId);
+    if (!pageRequest) return;
+
+    await interaction.deferUpdate();
+    const unresolved = await getUnresolvedQueries(pageRequest.scope === 'all' ? null : pageRequest.channelId);
+    await interaction.editReply(buildQuestionsPage(unresolved, pageRequest.page, pageRequest.scope, pageRequest.channelId));
+}
+
+// ============================================================================
+// ESCALATIONS
+// ============================================================================
+
+/**
+ * Deliver the escalation tiers that are due (lib/escalations.ts)
+ * Failed deliveries are logged; the tier is still recorded so it is not retried every minute
+ */
+async function runEscalations(readyClient: Client<true>) {
+    if (shuttingDown || escalationRunning) return;
+    escalationRunning = true;
+    try {
+        await deliverDueEscalations(readyClient);
+    } finally {
+        escalationRunning = false;
+    }
+}
+
+async function deliverDueEscalations(readyClient: Client<true>) {
+    const due = await escalationScheduler.findDue();
+
+    for (const escalation of due) {
+        const payload = { embeds: [buildEscalationEmbed(escalation)] };
+        const deliveredTo: string[] = [];
+
+        for (const recipientId of escalation.recipientIds) {
+            if (CONFIG.CONSOLE_ONLY) {
+                log('INFO', `[CONSOLE-ONLY] Would send ${escalation.tier} escalation of question ${escalation.questionId} to ${recipientId}`);
+                continue;
+            }
+
+            try {
+                if (escalation.tier === 'channel') {
+                    const channel = await readyClient.channels.fetch(recipientId);
+                    if (!channel?.isSendable()) throw new Error('not a channel the bot can post in');
+                    await channel.send(payload);
+                } else {
+                    const user = await readyClient.users.fetch(recipientId);
+                    await user.send(payload);
+                }
+                deliveredTo.push(recipientId);
+            } catch (error: any) {
+                log('WARN', `Failed to deliver ${escalation.tier} escalation of question ${escalation.questionId} to ${recipientId}: ${error.message}`);
+            }
+        }
+
+        await escalationScheduler.record(escalation, deliveredTo);
+    }
+}
+
+// ============================================================================
+// MESSAGE PIPELINE
+// ============================================================================
+
+/**
+ * Queue a message posted in a client channel for the pipeline and advance the channel's checkpoint
+ * Used for live messages and for messages backfilled by gap recovery
+ */
+async function handleIncomingMessage(message: Message<true>, backfilled = false) {
+    // The checkpoint stays behind, so gap recovery picks the message up on the next start
+    if (shuttingDown) return;
+
+    const clientChannel = resolveClientChannel(message.channel);
+    if (!clientChannel) return;
+
+    const fromTeam = isTeamMember(message.author.id, message.createdTimestamp);
+    const burstCandidate = isBurstCandidate(message, fromTeam, CONFIG.BURST_WINDOW_SECONDS);
 
-            if (unresolved.length > 0) {
-                const matchedQueryIds = await matchReplyToQuery(message.content, unresolved, message.channel as TextChannel);
+    // Filtered messages are recorded too - they are part of the channel history the pipeline reads
+    fixtureRecorder?.recordMessage(message, fromTeam);
 
-                if (matchedQueryIds.length > 0) {
-                    log('INFO', `✅ Matched ${matchedQueryIds.length} queries`);
+    messagesReceived.inc({ source: backfilled ? 'backfill' : 'live' });
+    if (message.author.bot) {
+        messagesFiltered.inc({ reason: 'bot' });
+    } else if (message.content.length < CONFIG.MIN_MESSAGE_LENGTH && !burstCandidate) {
+        // Short client fragments are queued - the length filter applies to their merged burst
+        messagesFiltered.inc({ reason: 'too_short' });
+    } else {
+        const delaySeconds = burstCandidate ? burstDelaySeconds(message, CONFIG.BURST_WINDOW_SECONDS) : 0;
+        const enqueued = await enqueueMessageJob(jobQueue, message, clientChannel.channelId, backfilled, delaySeconds);
+
+        // Leave the checkpoint behind so gap recovery picks the message up again
+        if (!enqueued) {
+            messagesFiltered.inc({ reason: 'enqueue_failed' });
+            return;
+        }
+    }
+
+    // The job is durable, so the checkpoint can move as soon as it is stored
+    await saveCheckpoint(message.channelId, clientChannel.channelId, message.id);
+}
+
+/**
+ * Job handler: fetch the message and run the stages the ledger has not completed yet
+ * A client message that ends a burst runs the pipeline once for the whole burst (lib/message-bursts.ts)
+ * Throwing makes the job queue retry with backoff
+ */
+async function runProcessMessageJob(payload: ProcessMessagePayload) {
+    const channel = await discordClient.channels.fetch(payload.discordChannelId).catch(() => null);
+    if (!channel || !channel.isTextBased() || channel.isDMBased()) {
+        log('WARN', `Channel ${payload.discordChannelId} is gone - dropping message ${payload.messageId}`);
+        return;
+    }
+
+    const message = await channel.messages.fetch(payload.messageId).catch(() => null);
+    if (!message) {
+        log('WARN', `Message ${payload.messageId} was deleted before processing - skipping`);
+        return;
+    }
+
+    const clientChannel = resolveClientChannel(message.channel);
+    if (!clientChannel) return;
+
+    const fromTeam = isTeamMember(message.author.id, message.createdTimestamp);
+    let burst = [message];
+    if (isBurstCandidate(message, fromTeam, CONFIG.BURST_WINDOW_SECONDS)) {
+        if (await hasBurstContinuation(message, CONFIG.BURST_WINDOW_SECONDS)) {
+            log('DEBUG', `Message ${message.id} continues in a later message - processed with its burst`);
+            return;
+        }
+        burst = await collectBurst(message, CONFIG.BURST_WINDOW_SECONDS, ids => messageLedger.findCompleted(ids));
+    }
+
+    // The burst is processed as its first message with the merged text
+    const unit = mergeBurst(burst);
+    if (unit.content.length < CONFIG.MIN_MESSAGE_LENGTH) {
+        messagesFiltered.inc({ reason: 'too_short' });
+        return;
+    }
+    if (burst.length > 1) {
+        log('INFO', `Merged ${burst.length} consecutive messages from ${message.author.username}`, { messageIds: burst.map(m => m.id) });
+    }
+
+    const ledgerEntry = await messageLedger.begin(unit, clientChannel.channelId, burst.slice(1), fromTeam);
+    if (ledgerEntry.status === 'completed') {
+        log('DEBUG', `Message ${unit.id} already processed - skipping`);
+        return;
+    }
+    if (ledgerEntry.attempts > 1) {
+        log('INFO', `Resuming message ${unit.id}`, { attempt: ledgerEntry.attempts, completedStages: [...ledgerEntry.completedStages] });
+    }
+
+    await channelSerializer.run(clientChannel.channelId, () => processClientChannelMessage(unit, clientChannel, ledgerEntry, payload.backfilled));
+}
+
+/**
+ * Triage, analytics and question board updates for one message (FR-02 to FR-06)
+ * All timestamps come from the message itself so backfilled messages land on the right day.
+ * Stages already recorded in the ledger entry are skipped.
+ */
+async function processClientChannelMessage(message: Message<true>, clientChannel: ClientChannelContext, ledgerEntry: LedgerEntry, backfilled: boolean) {
+    const fromTeam = isTeamMember(message.author.id, message.createdTimestamp);
+    const author = fromTeam ? 'team' : 'client';
+
+    try {
+        const { channelId, channelName, thread, route } = clientChannel;
+        const messageTimestamp = Math.floor(message.createdTimestamp / 1000);
+        const messageDate = new Date(message.createdTimestamp).toISOString().split('T')[0];
+
+        log('INFO', `${backfilled ? 'Backfilled' : 'New'} message from ${message.author.username} in #${channelName}`, {
+            channelId,
+            author: message.author.username,
+            thread: thread?.name ?? null,
+            backfilled,
+        });
+
+        // Stages outside the channel's processing profile are skipped, as are stages already in the ledger
+        const shouldRun = (stage: PipelineStage) => route.stages.has(stage) && !ledgerEntry.completedStages.has(stage);
+
+        const conversation = thread ? await upsertConversation(channelId, thread, message) : null;
+
+        // 1. Handle Team Member Replies
+        if (fromTeam) {
+            log('INFO', `Team member reply detected from ${message.author.username}`, { content: message.content });
 
-                    // Show details of matched queries
-                    const matchedQueries = unresolved.filter(q => matchedQueryIds.includes(q.id));
-                    log('INFO', `📋 MATCHED QUESTIONS:\n${JSON.stringify(matchedQueries.map(q => ({
+            // Response quality, reply matching and resolution
+            if (shouldRun('quality')) {
+                const endTimer = stageDuration.startTimer({ stage: 'quality' });
+                const unresolved = await getUnresolvedQueries(channelId);
+
+                log('INFO', `Found ${unresolved.length} unresolved queries in ${channelName}`, {
+                    queries: unresolved.map(q => ({
                         id: q.id,
                         summary: q.summary || q.content.substring(0, 80),
-                        status: 'open',
-                        will_become: 'resolved'
-                    })), null, 2)}`);
-
-                    // Track response metrics for matched queries
-                    const firstQuery = unresolved.find(q => q.id === matchedQueryIds[0]);
-                    if (firstQuery) {
-                        const responseMetrics = await analytics.trackCSMResponse(matchedQueryIds[0], firstQuery.createdAt, message, channelId, quality);
+                        type: q.type,
+                        urgency: q.urgency,
+                    })),
+                });
+
+                // Acknowledgements, follow-up questions, scheduling and small talk are not scored
+                // (only classified when there are open questions to match the message against)
+                const intent = unresolved.length > 0 ? await analytics.classifyTeamMessageIntent(message, unresolved[0].content) : null;
+                if (intent) log('INFO', `Team message intent: ${intent}`);
+                // Question the reply was matched to, so client replies to it find the question
+                let repliedQueryId: number | null = null;
+                const dailyCounts: Record<string, number> = {};
+                // Days of the questions the reply resolved, whose summaries are recalculated
+                let resolvedCreatedAts: number[] = [];
+
+                if (!intent) {
+                    log('WARN', `No unresolved queries in this channel - team member is likely continuing conversation or helping with general discussion`);
+                } else if (intent === 'social') {
+                    log('DEBUG', `Social message - not matched to questions`);
+                } else {
+                    // Questions asked in (or that started) this thread are the strongest match candidates
+                    const threadQuestionIds = thread
+                        ? unresolved
+                            .filter(q => q.id === conversation?.question_id || q.link.includes(`/${thread.id}/`))
+                            .map(q => q.id)
+                        : [];
+                    const { queryIds, method: matchMethod } = await matchReplyToQuery(message, unresolved, message.channel, threadQuestionIds);
+                    // Matched ids that are not open questions are dropped (in the matcher's order)
+                    const matchedQueries = [...new Set(queryIds)].flatMap(id => unresolved.filter(q => q.id === id));
+                    const matchedQueryIds = matchedQueries.map(q => q.id);
+
+                    if (matchedQueries.length > 0) {
+                        log('INFO', `Matched ${matchedQueryIds.length} queries (method: ${matchMethod})`, {
+                            matchMethod,
+                            queries: matchedQueries.map(q => ({
+                                id: q.id,
+                                summary: q.summary || q.content.substring(0, 80),
+                            })),
+                        });
+
+                        // Answers are scored against the question they answer
+                        const answeredQuery = matchedQueries[0];
+                        repliedQueryId = answeredQuery.id;
+                        let quality = null;
+                        if (intent === 'answer') {
+                            quality = await analytics.analyzeResponseQuality(message, answeredQuery.content, channelId);
+                            if (quality) {
+                                log('INFO', `Response quality analyzed`, { quality });
+                            } else {
+                                log('WARN', `Response quality analysis returned null for team member response in #${channelName}`);
+                            }
+                        }
 
+                        // Every matched reply counts for response time: one analytics row per reply,
+                        // and a first response (which stops escalation) for every question it tends to
+                        const responseMetrics = await analytics.trackCSMResponse(answeredQuery.id, answeredQuery.createdAt, message, channelId, quality, matchMethod, intent);
                         if (responseMetrics) {
-                            log('INFO', `📊 CSM RESPONSE METRICS:\n${JSON.stringify(responseMetrics, null, 2)}`);
+                            log('INFO', `CSM response metrics recorded`, { responseMetrics });
+                            dailyCounts.total_team_messages = 1;
+                            if (responseMetrics.hasLoom) dailyCounts.looms_sent = 1;
+                        }
+                        for (const query of matchedQueries.slice(1)) {
+                            await analytics.recordFirstResponse(query.id, query.createdAt, message);
                         }
-                    }
 
-                    // Show simulation of query board updates (especially useful in Console Only Mode)
-                    if (CONFIG.CONSOLE_ONLY) {
-                        showQueryResolutionSimulation(matchedQueries, message.author.id, message.author.username);
+                        if (intent === 'answer') {
+                            // Show simulation of query board updates (especially useful in Console Only Mode)
+                            if (CONFIG.CONSOLE_ONLY) {
+                                showQueryResolutionSimulation(matchedQueries, message.author.id, message.author.username);
+                            }
+
+                            // Resolve queries in DB
+                            await resolveQueries(matchedQueryIds, message.author.id, message.author.username, matchMethod, messageTimestamp);
+                            resolvedCreatedAts = matchedQueries.map(q => q.createdAt);
+                        } else {
+                            // The team is on it, but the question stays unresolved for the actual answer
+                            // (questions that cannot make the move, e.g. in_progress -> acknowledged, keep their state)
+                            await questionLifecycle.transition(matchedQueryIds, INTENT_STATUSES[intent], { id: message.author.id, name: message.author.username }, {
+                                at: messageTimestamp,
+                                source: 'reply',
+                            });
+                        }
+                    } else {
+                        log('WARN', `No matching queries found - may be resolving general discussion`);
                     }
-
-                    // Resolve queries in DB
-                    await resolveQueries(matchedQueryIds, message.author.id, message.author.username);
-                } else {
-                    log('WARN', `⚠️ No matching queries found - may be resolving general discussion`);
                 }
-            } else {
-                log('WARN', `⚠️ No unresolved queries in this channel - team member is likely continuing conversation or helping with general discussion`);
+
+                endTimer();
+                // Daily counts are committed together with the stage so a retried reply is never counted twice
+                await messageLedger.completeStage(ledgerEntry, 'quality', {
+                    questionId: repliedQueryId,
+                    metrics: { channelId, date: messageDate, counts: dailyCounts },
+                });
+                // After the stage's counts, so a recalculated day is left with the stored rows' counts
+                await refreshQuestionSummaries(channelId, resolvedCreatedAts);
             }
 
             // Track Loom links if present
-            const loomResult = await analytics.trackLoomLink(message, channelId);
-            if (loomResult) {
-                log('INFO', `🎬 LOOM LINK TRACKED:\n${JSON.stringify(loomResult, null, 2)}`);
+            if (shouldRun('looms')) {
+                const loomResult = await stageDuration.time({ stage: 'looms' }, () => analytics.trackLoomLink(message, channelId));
+                if (loomResult) {
+                    log('INFO', `Loom link tracked`, { loom: loomResult });
+                }
+                await messageLedger.completeStage(ledgerEntry, 'looms');
             }
 
             // Track other outbound links
-            const urlResult = await urlExtractor.trackURLs(message, channelId);
-            if (urlResult && urlResult.tracked > 0) {
-                log('INFO', `🔗 URLS TRACKED:\n${JSON.stringify(urlResult, null, 2)}`);
+            if (shouldRun('urls')) {
+                const urlResult = await stageDuration.time({ stage: 'urls' }, () => urlExtractor.trackURLs(message, channelId));
+                if (urlResult && urlResult.tracked > 0) {
+                    log('INFO', `URLs tracked`, { urls: urlResult });
+                }
+                await messageLedger.completeStage(ledgerEntry, 'urls');
             }
 
+            await messageLedger.complete(ledgerEntry);
+            messagesProcessed.inc({ author, result: 'success' });
             return;
         }
 
         // 2. Handle Client Messages
-        const exists = await messageExistsInDatabase(message.id, channelId, message.content);
-        if (exists) return;
+        // Double-posts are only checked the first time a message is seen (a resumed message finds its own question)
+        if (ledgerEntry.attempts === 1 && await isDuplicateQuestion(channelId, message.content)) {
+            log('INFO', `Duplicate of a question posted in the last hour - skipping`);
+            messagesFiltered.inc({ reason: 'duplicate' });
+            await messageLedger.complete(ledgerEntry);
+            return;
+        }
+
+        await upsertClient(channelId, channelName, route.clientName, route.segment);
 
-        await upsertClient(channelId, channelName, clientName);
+        // The client answered the team's follow-up question
+        await resumeWaitingQueries(channelId, message, conversation?.question_id ?? null);
 
         // Analyze sentiment (Context7 Best Practice)
-        log('INFO', `🤖 Analyzing sentiment...`);
-        const sentiment = await analytics.analyzeSentiment(message, channelId);
-        if (sentiment) {
-            log('INFO', `💭 SENTIMENT ANALYSIS:\n${JSON.stringify({
-                type: sentiment.sentiment_type,
-                score: sentiment.sentiment_score,
-                engagement: sentiment.engagement_level,
-                churn_signals: {
-                    is_complaint: sentiment.is_complaint,
-                    is_pause_request: sentiment.is_pause_request,
-                    is_payment_issue: sentiment.is_payment_issue,
-                    is_cancellation_signal: sentiment.is_cancellation_signal
-                },
-                confidence: sentiment.confidence_level
-            }, null, 2)}`);
+        if (shouldRun('sentiment')) {
+            log('DEBUG', `Analyzing sentiment`);
+            const sentiment = await stageDuration.time({ stage: 'sentiment' }, () => analytics.analyzeSentiment(message, channelId));
+            if (sentiment) {
+                log('INFO', `Sentiment analyzed: ${sentiment.sentiment_type}`, {
+                    type: sentiment.sentiment_type,
+                    score: sentiment.sentiment_score,
+                    engagement: sentiment.engagement_level,
+                    churn_signals: {
+                        is_complaint: sentiment.is_complaint,
+                        is_pause_request: sentiment.is_pause_request,
+                        is_payment_issue: sentiment.is_payment_issue,
+                        is_cancellation_signal: sentiment.is_cancellation_signal
+                    },
+                    confidence: sentiment.confidence_level
+                });
+            }
+            await messageLedger.completeStage(ledgerEntry, 'sentiment');
         }
 
         // Run AI triage
-        log('INFO', `🤖 Running AI triage...`);
-        const aiTriage = await processMessageWithAI(message, message.channel as TextChannel);
-        log('INFO', `📝 AI TRIAGE RESULT:\n${JSON.stringify(aiTriage, null, 2)}`);
-
-        // Insert question if it's a Question or Bug
-        if (['Question', 'Bug'].includes(aiTriage.type)) {
-            const questionId = await insertQuestion(channelId, message, aiTriage);
-
-            // Track as repeated request
-            const repeatedRequest = await analytics.trackRepeatedRequest(message, channelId, aiTriage, questionId);
-            if (repeatedRequest) {
-                log('INFO', `🔄 REPEATED REQUEST TRACKED:\n${JSON.stringify(repeatedRequest, null, 2)}`);
+        if (shouldRun('triage')) {
+            const endTimer = stageDuration.startTimer({ stage: 'triage' });
+            // Client messages are counted from the ledger by calculateDailySummary, whatever stages run
+            const dailyCounts: Record<string, number> = {};
+            let questionId: number | null = null;
+
+            // "Still not working" reopens the resolved question instead of raising a new one,
+            // "thanks, works now" confirms its resolution (and may still ask something new)
+            const { reopen: reopenCandidate, confirm: confirmedQuestion } = await findResolutionFollowUp(channelId, message, conversation?.question_id ?? null);
+
+            if (confirmedQuestion) {
+                log('INFO', `Client confirmed question ${confirmedQuestion.id} is resolved`, { question: confirmedQuestion.summary || confirmedQuestion.content.substring(0, 80) });
+                await analytics.recordClientConfirmation(confirmedQuestion.id, confirmedQuestion.resolvedById, messageTimestamp);
             }
 
-            // Increment daily query count
-            await analytics.incrementDailyMetric(channelId, 'total_queries', 1);
-            log('INFO', `📊 Daily metric updated: +1 total_queries`);
-        }
+            if (reopenCandidate) {
+                log('INFO', `Client follow-up reopens question ${reopenCandidate.id}`, { question: reopenCandidate.summary || reopenCandidate.content.substring(0, 80) });
+                await reopenQuery(reopenCandidate, message.author.id, message.author.username, 'client_followup', messageTimestamp);
+                // Replies to the follow-up are matched to the reopened question
+                questionId = reopenCandidate.id;
+            } else {
+                log('DEBUG', `Running AI triage`);
+                const aiTriage = await processMessageWithAI(message, message.channel);
+                log('INFO', `AI triage: ${aiTriage.type}`, { triage: aiTriage });
+
+                // Insert question if it's a Question or Bug
+                if (['Question', 'Bug'].includes(aiTriage.type)) {
+                    // A crash after the insert leaves the question behind - reuse it instead of inserting twice
+                    const existingQuestion = ledgerEntry.attempts > 1 ? await findQuestionByMessage(channelId, message) : null;
+                    questionId = existingQuestion?.id ?? await insertQuestion(channelId, message, aiTriage) ?? null;
+
+                    // The first question raised in a thread is the one the conversation is about
+                    if (thread && questionId && !conversation?.question_id) {
+                        await linkConversationQuestion(thread.id, questionId);
+                    }
+
+                    // Track as repeated request
+                    if (!existingQuestion) {
+                        const repeatedRequest = await analytics.trackRepeatedRequest(message, channelId, aiTriage, questionId);
+                        if (repeatedRequest) {
+                            log('INFO', `Repeated request tracked`, { repeatedRequest });
+                        }
+                    }
 
-        // Increment daily message count
-        await analytics.incrementDailyMetric(channelId, 'total_client_messages', 1);
-        log('INFO', `📊 Daily metric updated: +1 total_client_messages`);
+                    dailyCounts.total_queries = 1;
+                }
+            }
+
+            endTimer();
+
+            // Daily counts are committed together with the stage so they are never counted twice
+            await messageLedger.completeStage(ledgerEntry, 'triage', {
+                questionId,
+                metrics: { channelId, date: messageDate, counts: dailyCounts },
+            });
+            log('INFO', `Daily metrics updated`, { counts: dailyCounts });
+
+            // Resolution metrics of the followed-up questions changed on the days they were raised
+            const followedUp = [reopenCandidate, confirmedQuestion].filter(q => q !== null);
+            await refreshQuestionSummaries(channelId, followedUp.map(q => q.createdAt), messageDate);
+        }
 
         // Update risk radar and daily summary
+        await stageDuration.time({ stage: 'risk_radar' }, () => analytics.calculateRiskRadar(channelId));
+        log('DEBUG', `Risk radar calculated for ${channelId}`);
+
+        await stageDuration.time({ stage: 'daily_summary' }, () => analytics.calculateDailySummary(channelId, messageDate));
+        log('DEBUG', `Daily summary calculated for ${channelId}`);
+
+        await messageLedger.complete(ledgerEntry);
+        messagesProcessed.inc({ author, result: 'success' });
+    } catch (error: any) {
+        log('ERROR', `Failed to process message: ${error.message}`, { error });
+        messagesProcessed.inc({ author, result: 'error' });
+        throw error;
+    }
+}
+
+/**
+ * Job handler: re-triage an edited client message
+ * Throwing makes the job queue retry with backoff
+ */
+async function runProcessEditJob(payload: ProcessEditPayload, job: Job) {
+    const channel = await discordClient.channels.fetch(payload.discordChannelId).catch(() => null);
+    if (!channel || !channel.isTextBased() || channel.isDMBased()) {
+        log('WARN', `Channel ${payload.discordChannelId} is gone - dropping edit of message ${payload.messageId}`);
+        return;
+    }
+
+    const message = await channel.messages.fetch(payload.messageId).catch(() => null);
+    if (!message) {
+        log('WARN', `Message ${payload.messageId} was deleted before its edit was processed - skipping`);
+        return;
+    }
+    if ((message.editedTimestamp ?? 0) > payload.editedTimestamp) {
+        log('DEBUG', `Message ${message.id} was edited again - processed with the later edit`);
+        return;
+    }
+
+    const clientChannel = resolveClientChannel(message.channel);
+    if (!clientChannel) return;
+
+    await channelSerializer.run(clientChannel.channelId, () => processMessageEdit(message, clientChannel, payload.previousContent, job.attempts > 1));
+}
+
+/**
+ * Re-run sentiment and triage for an edited client message and refresh its question
+ * Questions are found through the ledger, so an edit of a message merged into a burst updates
+ * the burst's question. A question added by the edit is counted with the ledger's triage stage.
+ */
+async function processMessageEdit(message: Message<true>, clientChannel: ClientChannelContext, cachedPrevious: string | null, retried: boolean) {
+    try {
+        const { channelId, channelName, route } = clientChannel;
+        const messageDate = new Date(message.createdTimestamp).toISOString().split('T')[0];
+        const previousContent = cachedPrevious ?? await getStoredMessageContent(message.id);
+        if (previousContent === message.content) return;
+
+        log('INFO', `Edited message from ${message.author.username} in #${channelName}`);
+        log('DEBUG', `Edit diff for ${message.id}`, { before: previousContent, after: message.content });
+
+        const ledgerQuestionId = (await messageLedger.findQuestionIds([message.id])).get(message.id);
+        // A retry after the edit added its question, but before the ledger recorded it, finds it by link
+        const existingQuestion = ledgerQuestionId ? await getQuestionById(ledgerQuestionId)
+            : retried ? await findQuestionByMessage(channelId, message)
+            : null;
+        await recordMessageEdit(channelId, message, previousContent ?? existingQuestion?.content ?? null, existingQuestion?.id ?? null);
+
+        // Re-run sentiment (upserts the customer_sentiment row for this message)
+        if (route.stages.has('sentiment')) {
+            log('DEBUG', `Re-analyzing sentiment after edit`);
+            const sentiment = await analytics.analyzeSentiment(message, channelId);
+            if (sentiment) {
+                log('INFO', `Sentiment after edit: ${sentiment.sentiment_type}`, { score: sentiment.sentiment_score });
+            }
+        }
+
+        // Re-run AI triage
+        if (route.stages.has('triage')) {
+            log('DEBUG', `Re-running AI triage after edit`);
+            const aiTriage = await processMessageWithAI(message, message.channel);
+            log('INFO', `AI triage after edit: ${aiTriage.type}`, { triage: aiTriage });
+
+            if (existingQuestion) {
+                await updateQuestionFromEdit(existingQuestion.id, message, aiTriage);
+            } else if (['Question', 'Bug'].includes(aiTriage.type)) {
+                // The edit turned chat into a question - add it to the board
+                await upsertClient(channelId, channelName, route.clientName, route.segment);
+                const questionId = await insertQuestion(channelId, message, aiTriage);
+
+                const repeatedRequest = await analytics.trackRepeatedRequest(message, channelId, aiTriage, questionId);
+                if (repeatedRequest) {
+                    log('INFO', `Repeated request tracked`, { repeatedRequest });
+                }
+
+                // The question and its count are committed to the message's ledger entry together
+                const ledgerEntry = await messageLedger.begin(message, channelId);
+                await messageLedger.completeStage(ledgerEntry, 'triage', {
+                    questionId,
+                    metrics: { channelId, date: messageDate, counts: { total_queries: 1 } },
+                });
+                log('INFO', `Daily metrics updated`, { counts: { total_queries: 1 } });
+            }
+        }
+
+        await analytics.updateRepeatedRequestContent(message.id, message.content);
+
         await analytics.calculateRiskRadar(channelId);
-        log('INFO', `⚠️ Risk radar calculated for ${channelId}`);
+        await analytics.calculateDailySummary(channelId, messageDate);
+        log('INFO', `Risk radar and daily summary recalculated for ${channelId}`);
+
+    } catch (error: any) {
+        log('ERROR', `Failed to process message edit: ${error.message}`, { error });
+        throw error;
+    }
+}
+
+// ============================================================================
+// EVENT HANDLERS
+// ============================================================================
+
+discordClient.once(Events.ClientReady, async readyClient => {
+    log('INFO', `Bot is ready - logged in as ${readyClient.user.tag}`, {
+        databaseWrites: !CONFIG.CONSOLE_ONLY,
+        routingRules: channelRouter.rules.map(rule => ({
+            name: rule.name,
+            guildName: rule.guildName,
+            guildId: rule.guildId,
+            categoryId: rule.categoryId,
+            channelNamePattern: rule.channelNamePattern,
+            profile: rule.profile || 'full',
+        })),
+    });
+    if (CONFIG.CONSOLE_ONLY) {
+        log('WARN', `DATABASE SAVING IS DISABLED (Console Only Mode)`);
+    }
+
+    registerSlashCommands(readyClient);
+
+    // The roster must be current before backfilled messages are classified
+    await teamRoster.refresh(readyClient.guilds.cache.values());
+    log('INFO', `Team roster: ${teamRoster.size} team members`);
+    teamRosterRefreshTimer = setInterval(
+        () => teamRoster.refresh(readyClient.guilds.cache.values()),
+        CONFIG.TEAM_ROSTER_REFRESH_MINUTES * 60 * 1000
+    );
+
+    if (CONFIG.SLA_EVALUATION_MINUTES > 0) {
+        slaEvaluationTimer = setInterval(
+            () => slaMonitor.evaluate(),
+            CONFIG.SLA_EVALUATION_MINUTES * 60 * 1000
+        );
+    }
+    if (CONFIG.ESCALATION_CHANNEL_ID) {
+        escalationTimer = setInterval(() => runEscalations(readyClient), ESCALATION_CHECK_INTERVAL_MS);
+    }
+
+    // Workers need the Discord client to fetch queued messages
+    await jobQueue.start();
+    startupComplete = true;
+
+    recoverMissedMessages(readyClient);
+});
+
+// A new gateway session does not replay events missed while disconnected
+discordClient.on(Events.ShardReady, shardId => {
+    if (!discordClient.isReady()) return; // Initial connection is handled by ClientReady
+    log('INFO', `Shard ${shardId} reconnected - checking for missed messages`);
+    recoverMissedMessages(discordClient);
+});
+
+discordClient.on(Events.ShardResume, shardId => {
+    if (!discordClient.isReady()) return;
+    log('INFO', `Shard ${shardId} resumed - checking for missed messages`);
+    recoverMissedMessages(discordClient);
+});
+
+discordClient.on(Events.GuildMemberUpdate, async (oldMember, newMember) => {
+    if (shuttingDown) return;
+    await teamRoster.updateMember(newMember);
+});
+
+discordClient.on(Events.GuildMemberRemove, async member => {
+    if (shuttingDown) return;
+    await teamRoster.updateMember(member, true);
+});
+
+discordClient.on(Events.MessageCreate, async message => {
+    if (!message.inGuild()) return;
+    await withLogContext({ correlationId: message.id }, () => handleIncomingMessage(message));
+});
+
+discordClient.on(Events.MessageUpdate, async (oldMessage, newMessage) => {
+    if (shuttingDown || newMessage.author.bot || !newMessage.inGuild()) return;
+
+    const clientChannel = resolveClientChannel(newMessage.channel);
+    if (!clientChannel) return;
+
+    // Embed unfurls and pins also emit updates - only re-triage real content changes
+    const cachedPrevious = oldMessage.partial ? null : oldMessage.content;
+    if (cachedPrevious === newMessage.content) return;
+    if (newMessage.content.length < CONFIG.MIN_MESSAGE_LENGTH) return;
+
+    // Team replies are scored once when sent; only client messages are re-triaged
+    if (isTeamMember(newMessage.author.id, newMessage.createdTimestamp)) return;
+
+    // Re-triaged by a job, in order with the channel's messages and retried like them
+    await withLogContext({ correlationId: newMessage.id }, () => enqueueEditJob(jobQueue, newMessage, clientChannel.channelId, cachedPrevious));
+});
+
+discordClient.on(Events.MessageDelete, async message => {
+    if (shuttingDown || !message.inGuild()) return;
+
+    const clientChannel = resolveClientChannel(message.channel);
+    if (!clientChannel) return;
+
+    try {
+        await channelSerializer.run(clientChannel.channelId, () => withLogContext({ correlationId: message.id }, () =>
+            handleDeletedMessages(clientChannel.channelId, clientChannel.channelName, [message])
+        ));
+    } catch (error: any) {
+        log('ERROR', `Failed to process message delete: ${error.message}`);
+    }
+});
+
+discordClient.on(Events.MessageBulkDelete, async (messages, channel) => {
+    if (shuttingDown) return;
+
+    const clientChannel = resolveClientChannel(channel);
+    if (!clientChannel) return;
+
+    try {
+        await channelSerializer.run(clientChannel.channelId, () => handleDeletedMessages(clientChannel.channelId, clientChannel.channelName, [...messages.values()]));
+    } catch (error: any) {
+        log('ERROR', `Failed to process bulk message delete: ${error.message}`);
+    }
+});
+
+discordClient.on(Events.MessageReactionAdd, async (reaction, user) => {
+    if (shuttingDown) return;
+
+    try {
+        const fullReaction = reaction.partial ? await reaction.fetch() : reaction;
+        const fullUser = user.partial ? await user.fetch() : user;
+        if (fullUser.bot) return;
+
+        const message = fullReaction.message.partial ? await fullReaction.message.fetch() : fullReaction.message;
+        if (!message.inGuild()) return;
+
+        const clientChannel = resolveClientChannel(message.channel);
+        if (!clientChannel) return;
+
+        await channelSerializer.run(clientChannel.channelId, () => withLogContext({ correlationId: message.id }, () =>
+            handleWorkflowReaction(fullReaction, fullUser, message, clientChannel)
+        ));
+    } catch (error: any) {
+        log('ERROR', `Failed to process reaction: ${error.message}`);
+    }
+});
+
+discordClient.on(Events.InteractionCreate, async interaction => {
+    if (!interaction.inCachedGuild()) return;
+    if (!interaction.isChatInputCommand() && !interaction.isButton()) return;
 
-        await analytics.calculateDailySummary(channelId);
-        log('INFO', `📈 Daily summary calculated for ${channelId}`);
+    if (shuttingDown) {
+        await interaction.reply({ content: 'The bot is restarting - try again in a minute.', flags: MessageFlags.Ephemeral }).catch(() => null);
+        return;
+    }
+
+    if (!isTeamMember(interaction.user.id)) {
+        await interaction.reply({ content: 'Only team members can manage the question board.', flags: MessageFlags.Ephemeral }).catch(() => null);
+        return;
+    }
 
+    try {
+        if (interaction.isChatInputCommand()) {
+            log('INFO', `/${interaction.commandName} ${interaction.options.getSubcommand(false) ?? ''} from ${interaction.user.username}`);
+            await handleSlashCommand(interaction);
+        } else {
+            await handleQuestionsPageButton(interaction);
+        }
     } catch (error: any) {
-        log('ERROR', `Failed to process message: ${error.message}`);
+        log('ERROR', `Failed to handle interaction: ${error.message}`);
+        const content = 'Something went wrong handling that command.';
+        if (interaction.deferred || interaction.replied) {
+            // Otherwise the user is left looking at "thinking..." (or the previous page)
+            await interaction.editReply({ content, embeds: [], components: [] }).catch(() => null);
+        } else {
+            await interaction.reply({ content, flags: MessageFlags.Ephemeral }).catch(() => null);
+        }
     }
 });
 
 discordClient.on('error', error => log('ERROR', `Discord client error: ${error.message}`));
 
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+/**
+ * Feed a recorded fixture through the pipeline, one message at a time, and write the report
+ * Each message's jobs finish before the next message is replayed, as channel history would have been
+ */
+async function runReplay(session: ReplaySession) {
+    await prepareReplayDatabase(tursoClient);
+    await teamRoster.load();
+    await teamRoster.refresh([]);
+    await jobQueue.start();
+    startupComplete = true;
+
+    for (const message of session.discord.messages) {
+        // A client message's job runs once its burst window has passed
+        const burstCandidate = isBurstCandidate(message, isTeamMember(message.author.id, message.createdTimestamp), CONFIG.BURST_WINDOW_SECONDS);
+        session.discord.advanceTo(message, burstCandidate ? CONFIG.BURST_WINDOW_SECONDS * 1000 : 0);
+        await withLogContext({ correlationId: message.id }, () => handleIncomingMessage(message));
+        await jobQueue.waitUntilIdle();
+    }
+    await jobQueue.stop();
+
+    const report = await buildReplayReport(tursoClient, session);
+    const reportPath = CONFIG.REPLAY_REPORT || session.fixturePath.replace(/\.ndjson$/, '') + '.report.json';
+    fs.writeFileSync(reportPath, JSON.stringify(report, null, 2) + '\n');
+
+    log('INFO', `Replay finished - report written to ${reportPath}`, {
+        messages: report.messages,
+        questions: report.questions.length,
+        sentiment: report.customer_sentiment.length,
+        failedJobs: report.failedJobs.length,
+        missingCheckpoints: report.missingCheckpoints.length,
+        aiResponsesServed: report.ai.served,
+        aiResponsesMissing: report.ai.missing.length,
+        aiRequestsChanged: report.ai.changedRequests.length,
+    });
+    if (report.missingCheckpoints.length > 0) {
+        log('WARN', `Replayed channels without a checkpoint: ${report.missingCheckpoints.join(', ')}`);
+    }
+}
+
 async function startup() {
     try {
+        channelRouter.load();
+        slaMonitor.load();
+        // Job logs carry the Discord message id as their correlation id
+        jobQueue.registerHandler(PROCESS_MESSAGE_JOB, payload =>
+            withLogContext({ correlationId: payload.messageId }, () => runProcessMessageJob(payload))
+        );
+        jobQueue.registerHandler(PROCESS_EDIT_JOB, (payload, job) =>
+            withLogContext({ correlationId: payload.messageId }, () => runProcessEditJob(payload, job))
+        );
+
+        if (replaySession) {
+            await runReplay(replaySession);
+            process.exit(0);
+        }
+
+        channelRouter.watch();
+        slaMonitor.watch();
+        if (CONFIG.HEALTH_PORT > 0) healthServer.start();
+
         log('INFO', 'Testing database connection...');
         await db.run(sql`SELECT 1`);
-        log('INFO', '✅ Database connection successful');
+        log('INFO', 'Database connection successful');
+        await teamRoster.load();
         await discordClient.login(CONFIG.DISCORD_BOT_TOKEN);
     } catch (error: any) {
         log('ERROR', `Startup failed: ${error.message}`);
@@ -733,8 +2424,48 @@ async function startup() {
 
 startup();
 
-process.on('SIGINT', async () => {
-    log('INFO', '\n⏹️  Shutting down gracefully...');
+/**
+ * Graceful shutdown (SIGTERM from the container platform, SIGINT from Ctrl+C)
+ * Stops taking Discord events, lets running jobs and channel work finish until the deadline,
+ * re-queues jobs that did not, logs the final metric totals and closes the database.
+ * Queued jobs and messages that were never queued (checkpoint not advanced) are picked up
+ * by the next start; a second signal exits immediately.
+ */
+async function shutdown(signal: string) {
+    if (shuttingDown) {
+        log('WARN', `${signal} received again - exiting without waiting`);
+        process.exit(1);
+    }
+    shuttingDown = true;
+
+    const timeoutMs = CONFIG.SHUTDOWN_TIMEOUT_SECONDS * 1000;
+    log('INFO', `${signal} received - draining in-flight work (up to ${CONFIG.SHUTDOWN_TIMEOUT_SECONDS}s)`, {
+        runningJobs: jobQueue.activeCount,
+        busyChannels: channelSerializer.activeKeys,
+    });
+
+    channelRouter.unwatch();
+    slaMonitor.unwatch();
+    if (teamRosterRefreshTimer) clearInterval(teamRosterRefreshTimer);
+    if (slaEvaluationTimer) clearInterval(slaEvaluationTimer);
+    if (escalationTimer) clearInterval(escalationTimer);
+
+    const [jobsDrained, channelsDrained] = await Promise.all([
+        jobQueue.stop(timeoutMs),
+        channelSerializer.drain(timeoutMs),
+    ]);
+    if (!channelsDrained) {
+        log('WARN', `Channel work still running at the shutdown deadline`, { busyChannels: channelSerializer.activeKeys });
+    }
+
     await discordClient.destroy();
+    await fixtureRecorder?.close();
+
+    log('INFO', `Shutdown complete`, { drained: jobsDrained && channelsDrained, metrics: registry.snapshot() });
+    await healthServer.stop();
+    await closeDb();
     process.exit(0);
-});
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
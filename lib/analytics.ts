@@ -14,6 +14,9 @@
 // ============================================================================
 
 import OpenAI from 'openai';
+import { trackAICall } from './metrics';
+import { createLogger } from './logger';
+import { UNRESOLVED_STATUSES } from './question-lifecycle';
 
 // ============================================================================
 // CONFIGURATION
@@ -21,6 +24,24 @@ import OpenAI from 'openai';
 
 export const LOOM_URL_REGEX = /https?:\/\/(www\.)?(loom\.com\/share\/[a-zA-Z0-9]+|loom\.com\/embed\/[a-zA-Z0-9]+)/gi;
 
+/**
+ * What a team message does in the conversation (csm_response_analytics.message_intent)
+ */
+export const TEAM_MESSAGE_INTENTS = ['acknowledgement', 'answer', 'follow_up_question', 'scheduling', 'social'] as const;
+export type TeamMessageIntent = typeof TEAM_MESSAGE_INTENTS[number];
+
+// Messages without a letter or digit (emoji, "+1"-style punctuation) are acknowledgements
+const NO_WORDS_REGEX = /^[^\p{L}\p{N}]*$/u;
+
+/**
+ * Is this an OpenRouter/OpenAI outage (connection error, rate limit, 5xx) rather than a bad response
+ * Outages are worth retrying later; bad responses are not
+ */
+export function isAIUnavailableError(error: any) {
+  if (error instanceof OpenAI.APIConnectionError) return true;
+  return error instanceof OpenAI.APIError && (error.status === 429 || (error.status ?? 0) >= 500);
+}
+
 // ============================================================================
 // AI CLASSIFICATION PROMPTS
 // ============================================================================
@@ -162,6 +183,63 @@ Respond with JSON only:
   "summary": "Brief holistic assessment"
 }`;
 
+/**
+ * Prompt for classifying what a team message is doing in the conversation
+ * Only answers are scored for response quality
+ */
+const TEAM_MESSAGE_INTENT_PROMPT = `You classify messages a customer success team member posted in a client's support channel.
+
+Pick the ONE intent that best describes the message:
+- acknowledgement: Confirms the request was seen or is being worked on, without answering it ("on it", "looking into this", "thanks, checking with the team")
+- answer: Substantively answers or resolves a client question or issue (explanation, instructions, fix, link to a resource)
+- follow_up_question: Asks the client for clarification or more information
+- scheduling: Arranges a call, meeting or time ("can we hop on a call Tuesday?", "here is my calendar link")
+- social: Greetings, thanks, small talk, celebrations or banter not about a request
+
+Respond with JSON only:
+{"intent": "acknowledgement|answer|follow_up_question|scheduling|social"}`;
+
+/**
+ * Prompt for client follow-ups on resolved questions: not actually fixed, or confirmed fixed
+ */
+const RESOLUTION_FOLLOW_UP_PROMPT = `You review client messages in a support channel against questions the team recently marked as resolved.
+
+Decide whether the client's message:
+- says one of those questions is NOT actually resolved: the fix did not work, the problem is still happening or came back, or the answer did not help ("reopens")
+- confirms one of those questions is resolved: thanks the team for the fix or answer, or says it works now ("confirms")
+Messages about a different topic neither reopen nor confirm anything. A message cannot do both for the same question.
+
+Respond with JSON only:
+{"reopens": <ID of the question the message says is not fixed, or null>, "confirms": <ID of the question the message confirms is fixed, or null>}`;
+
+/**
+ * Latest response of the resolver to a question (resolution metrics are recorded on it)
+ * Args: query id, resolver user id
+ */
+const RESOLVER_RESPONSE_SQL = `SELECT id FROM csm_response_analytics
+  WHERE query_id = ? AND responder_user_id = ?
+  ORDER BY response_timestamp DESC, id DESC
+  LIMIT 1`;
+
+/**
+ * Final SLA outcome per question and clock (met or breached, lib/sla-monitor.ts) for questions raised since a time
+ * A clock counts as breached once it breached, even if it was met before the question was reopened
+ * Args: since
+ */
+const SLA_OUTCOMES_SQL = `SELECT e.question_id, e.channel_id, e.metric, q.resolved_by_id,
+    MAX(e.event_type = 'breached') as breached
+  FROM sla_events e
+  JOIN questions q ON q.id = e.question_id
+  WHERE e.event_type IN ('met', 'breached') AND q.created_at >= ? AND q.deleted_at IS NULL
+  GROUP BY e.question_id, e.metric`;
+
+const SLA_BREACH_RATE_COLUMNS = `SUM(o.metric = 'first_response') as first_response_measured,
+    SUM(o.metric = 'first_response' AND o.breached) as first_response_breaches,
+    ROUND(SUM(o.metric = 'first_response' AND o.breached) * 100.0 / NULLIF(SUM(o.metric = 'first_response'), 0), 1) as first_response_breach_rate,
+    SUM(o.metric = 'resolution') as resolution_measured,
+    SUM(o.metric = 'resolution' AND o.breached) as resolution_breaches,
+    ROUND(SUM(o.metric = 'resolution' AND o.breached) * 100.0 / NULLIF(SUM(o.metric = 'resolution'), 0), 1) as resolution_breach_rate`;
+
 /**
  * Prompt for categorizing questions for repeated request tracking
  */
@@ -197,6 +275,8 @@ Respond with JSON only:
 // ANALYTICS CLASS
 // ============================================================================
 
+const logger = createLogger('analytics');
+
 export class Analytics {
   private db: any;
   private openai: OpenAI;
@@ -207,6 +287,8 @@ export class Analytics {
     this.openai = openaiClient;
     this.config = {
       openaiModel: config.openaiModel || 'o3-mini',
+      // Rethrow OpenRouter outages so the caller (job queue) can retry instead of storing nothing
+      throwOnAIUnavailable: config.throwOnAIUnavailable || false,
       debug: config.debug || false,
       consoleOnly: config.consoleOnly || false,
       ...config
@@ -215,13 +297,7 @@ export class Analytics {
 
   log(level: string, message: string, data: any = null) {
     if (level === 'DEBUG' && !this.config.debug) return;
-    const timestamp = new Date().toISOString();
-    const prefix = `[${timestamp}] [ANALYTICS] [${level}]`;
-    if (data) {
-      console.log(`${prefix} ${message}`, data);
-    } else {
-      console.log(`${prefix} ${message}`);
-    }
+    logger.log(level, message, data);
   }
 
   // ==========================================================================
@@ -234,14 +310,14 @@ export class Analytics {
    */
   async analyzeSentiment(message: any, channelId: string) {
     try {
-      const completion = await this.openai.chat.completions.create({
+      const completion = await trackAICall('sentiment', () => this.openai.chat.completions.create({
         model: this.config.openaiModel,
         messages: [
           { role: 'system', content: SENTIMENT_ANALYSIS_PROMPT },
           { role: 'user', content: `Analyze this customer message:\n\n"${message.content}"` }
         ],
         max_completion_tokens: 1500,
-      });
+      }), isAIUnavailableError);
 
       const responseContent = completion.choices[0]?.message?.content?.trim();
       if (!responseContent) {
@@ -266,6 +342,7 @@ export class Analytics {
 
     } catch (error: any) {
       this.log('ERROR', `Sentiment analysis failed: ${error.message}`);
+      if (this.config.throwOnAIUnavailable && isAIUnavailableError(error)) throw error;
       return null;
     }
   }
@@ -275,7 +352,7 @@ export class Analytics {
    */
   async storeSentimentAnalysis(message: any, channelId: string, analysis: any) {
     try {
-      const messageLink = `https://discord.com/channels/${message.guild?.id || message.guildId}/${channelId}/${message.id}`;
+      const messageLink = `https://discord.com/channels/${message.guild?.id || message.guildId}/${message.channelId || channelId}/${message.id}`;
       const messageTimestamp = Math.floor(new Date(message.createdTimestamp || message.timestamp).getTime() / 1000);
 
       if (this.config.consoleOnly) {
@@ -297,6 +374,22 @@ export class Analytics {
         ON CONFLICT(message_id) DO UPDATE SET
           sentiment_type = excluded.sentiment_type,
           sentiment_score = excluded.sentiment_score,
+          is_complaint = excluded.is_complaint,
+          is_issue_report = excluded.is_issue_report,
+          is_feedback = excluded.is_feedback,
+          is_pause_request = excluded.is_pause_request,
+          is_payment_issue = excluded.is_payment_issue,
+          is_cancellation_signal = excluded.is_cancellation_signal,
+          is_disengagement = excluded.is_disengagement,
+          is_frustration = excluded.is_frustration,
+          is_confusion = excluded.is_confusion,
+          engagement_level = excluded.engagement_level,
+          message_content = excluded.message_content,
+          ai_summary = excluded.ai_summary,
+          keywords = excluded.keywords,
+          requires_immediate_action = excluded.requires_immediate_action,
+          suggested_action = excluded.suggested_action,
+          ai_analysis_raw = excluded.ai_analysis_raw,
           confidence_level = excluded.confidence_level`,
         args: [
           channelId,
@@ -370,6 +463,7 @@ export class Analytics {
         sql: `SELECT AVG(sentiment_score) as avg_score 
               FROM customer_sentiment 
               WHERE channel_id = ? 
+              AND deleted_at IS NULL
               AND message_timestamp >= unixepoch() - 2592000`, // Last 30 days
         args: [channelId]
       });
@@ -389,7 +483,7 @@ export class Analytics {
       });
 
       if (riskLevel !== 'low') {
-        this.log('WARN', `⚠️ Churn risk updated for ${channelId}: ${riskLevel} (sentiment: ${analysis.sentiment_type})`);
+        this.log('WARN', `Churn risk updated for ${channelId}: ${riskLevel}`, { channelId, riskLevel, sentiment: analysis.sentiment_type });
       } else {
         this.log('DEBUG', `Client ${channelId} sentiment updated: ${analysis.sentiment_type}`);
       }
@@ -403,6 +497,43 @@ export class Analytics {
   // RESPONSE QUALITY ANALYSIS
   // ==========================================================================
 
+  /**
+   * Classify a team message before scoring it (acknowledgement, answer, follow-up question, scheduling, social)
+   * Emoji-only messages are acknowledgements without an AI call. If classification fails the
+   * message is treated as an answer, so it is still scored.
+   */
+  async classifyTeamMessageIntent(message: any, clientContext: string | null = null): Promise<TeamMessageIntent> {
+    if (NO_WORDS_REGEX.test(message.content || '')) return 'acknowledgement';
+
+    try {
+      const context = clientContext ? `Latest open client question:\n"${clientContext}"\n\n` : '';
+      const completion = await trackAICall('team_intent', () => this.openai.chat.completions.create({
+        model: this.config.openaiModel,
+        messages: [
+          { role: 'system', content: TEAM_MESSAGE_INTENT_PROMPT },
+          { role: 'user', content: `${context}Team message:\n"${message.content}"` }
+        ],
+        max_completion_tokens: 200,
+      }), isAIUnavailableError);
+
+      let jsonStr = completion.choices[0]?.message?.content?.trim() || '{}';
+      if (jsonStr.includes('```')) {
+        jsonStr = jsonStr.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+      }
+
+      const intent = JSON.parse(jsonStr).intent;
+      if (!TEAM_MESSAGE_INTENTS.includes(intent)) {
+        throw new Error(`Unknown intent ${JSON.stringify(intent)}`);
+      }
+      return intent;
+
+    } catch (error: any) {
+      this.log('ERROR', `Team message intent classification failed: ${error.message}`);
+      if (this.config.throwOnAIUnavailable && isAIUnavailableError(error)) throw error;
+      return 'answer';
+    }
+  }
+
   /**
    * Analyze team member response quality with full conversation context
    * Using o3-mini for superior reasoning about customer service effectiveness
@@ -427,7 +558,7 @@ export class Analytics {
         const clientMessages = await this.db.execute({
           sql: `SELECT message_content, message_timestamp, author_username
                 FROM customer_sentiment
-                WHERE channel_id = ?
+                WHERE channel_id = ? AND deleted_at IS NULL
                 ORDER BY message_timestamp DESC
                 LIMIT 5`,
           args: [channelId]
@@ -448,7 +579,7 @@ export class Analytics {
         conversationContext = '';
       }
 
-      const completion = await this.openai.chat.completions.create({
+      const completion = await trackAICall('response_quality', () => this.openai.chat.completions.create({
         model: this.config.openaiModel,
         messages: [
           { role: 'system', content: RESPONSE_QUALITY_PROMPT },
@@ -458,7 +589,7 @@ export class Analytics {
           }
         ],
         max_completion_tokens: 1500,
-      });
+      }), isAIUnavailableError);
 
       const responseContent = completion.choices[0]?.message?.content?.trim();
       if (!responseContent) {
@@ -479,15 +610,18 @@ export class Analytics {
 
     } catch (error: any) {
       this.log('ERROR', `Response quality analysis failed: ${error.message}`);
+      if (this.config.throwOnAIUnavailable && isAIUnavailableError(error)) throw error;
       return null;
     }
   }
 
   /**
    * Track CSM response metrics for frontend dashboard display
-   * Stores: response time, quality scores, team member info, Loom usage
+   * Stores: response time, quality scores, team member info, Loom usage, reply match method, intent
+   * Quality columns stay empty for responses that were not scored (non-answers)
+   * One row per reply: tracking the same message again (a retried job) keeps the first row
    */
-  async trackCSMResponse(queryId: number, queryTimestamp: number, responseMessage: any, channelId: string, qualityAnalysis: any = null) {
+  async trackCSMResponse(queryId: number, queryTimestamp: number, responseMessage: any, channelId: string, qualityAnalysis: any = null, matchMethod: string | null = null, intent: TeamMessageIntent | null = null) {
     try {
       // Handle different timestamp formats (unix seconds or JS timestamp)
       const responseTimestamp = Math.floor(
@@ -512,7 +646,7 @@ export class Analytics {
       // Look for sentiment from the same channel around the query timestamp
       const relatedSentiment = await this.db.execute({
         sql: `SELECT id FROM customer_sentiment 
-              WHERE channel_id = ? AND message_timestamp >= ? AND message_timestamp <= ? + 3600
+              WHERE channel_id = ? AND deleted_at IS NULL AND message_timestamp >= ? AND message_timestamp <= ? + 3600
               ORDER BY ABS(message_timestamp - ?) ASC LIMIT 1`,
         args: [channelId, normalizedQueryTimestamp - 3600, normalizedQueryTimestamp, normalizedQueryTimestamp]
       });
@@ -523,7 +657,8 @@ export class Analytics {
         this.log('INFO', `[CONSOLE-ONLY] Would track CSM response for query ${queryId}`);
         return {
           responseTimeSeconds,
-          quality: qualityAnalysis
+          quality: qualityAnalysis,
+          hasLoom
         };
       }
 
@@ -542,27 +677,29 @@ export class Analytics {
         'cold': 'poor'
       };
 
-      const mappedUsefulness = usefulnessMap[qualityAnalysis?.effectiveness_level] || 'useful';
-      const mappedProfessionalism = professionalismMap[qualityAnalysis?.customer_first_language] || 'average';
+      const mappedUsefulness = qualityAnalysis ? usefulnessMap[qualityAnalysis.effectiveness_level] || 'useful' : null;
+      const mappedProfessionalism = qualityAnalysis ? professionalismMap[qualityAnalysis.customer_first_language] || 'average' : null;
 
       await this.db.execute({
         sql: `INSERT INTO csm_response_analytics (
-          channel_id, query_id, sentiment_message_id, query_timestamp, response_timestamp,
+          channel_id, query_id, sentiment_message_id, message_id, query_timestamp, response_timestamp,
           response_time_seconds, resolution_time_seconds, responder_user_id, responder_username,
           response_usefulness, response_professionalism, response_clarity,
           contains_loom_link, loom_url, loom_effectiveness,
           overall_quality_score, ai_assessment_raw,
           effectiveness_detail, effectiveness_level, customer_first_language,
-          five_star_rating, confidence_statement, confidence_level
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          five_star_rating, confidence_statement, confidence_level, match_method, message_intent
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(message_id) DO NOTHING`,
         args: [
           channelId,
           queryId,
           sentimentMessageId,
+          responseMessage.id || null,
           normalizedQueryTimestamp,
           responseTimestamp,
           responseTimeSeconds,
-          null, // resolution_time_seconds - updated when query is resolved
+          null, // resolution_time_seconds - set by recordResolution when the reply resolves the query
           responderId,
           responderUsername,
           mappedUsefulness, // Mapped value
@@ -575,36 +712,31 @@ export class Analytics {
           qualityAnalysis ? JSON.stringify(qualityAnalysis) : null,
           // Context7 Best Practices fields
           qualityAnalysis?.effectiveness_detail || null,
-          qualityAnalysis?.effectiveness_level || 'relevant',
-          qualityAnalysis?.customer_first_language || 'transactional',
+          qualityAnalysis ? qualityAnalysis.effectiveness_level || 'relevant' : null,
+          qualityAnalysis ? qualityAnalysis.customer_first_language || 'transactional' : null,
           qualityAnalysis?.five_star_rating || null,
           qualityAnalysis?.confidence_statement || null,
-          qualityAnalysis?.confidence_level || 'mid'
+          qualityAnalysis ? qualityAnalysis.confidence_level || 'mid' : null,
+          matchMethod,
+          intent
         ]
       });
 
-      // Update questions with first response metrics (for frontend)
       if (queryId) {
-        await this.db.execute({
-          sql: `UPDATE questions SET 
-            response_time_seconds = COALESCE(response_time_seconds, ?),
-            first_response_at = COALESCE(first_response_at, ?),
-            response_quality_score = COALESCE(response_quality_score, ?),
-            updated_at = unixepoch()
-          WHERE id = ?`,
-          args: [responseTimeSeconds, responseTimestamp, qualityAnalysis?.overall_quality_score || null, queryId]
-        });
-      }
-
-      // Update daily summary metrics
-      await this.incrementDailyMetric(channelId, 'total_team_messages', 1);
-      if (hasLoom) {
-        await this.incrementDailyMetric(channelId, 'looms_sent', 1);
+        await this.recordFirstResponse(queryId, normalizedQueryTimestamp, responseMessage, qualityAnalysis?.overall_quality_score || null);
       }
 
-      this.log('INFO', `📊 CSM Response: ${responderUsername} | ${responseTimeSeconds}s | Quality: ${qualityAnalysis?.overall_quality_score?.toFixed(2) || 'N/A'} | Sentiment Link: ${sentimentMessageId ? '✓' : '✗'} | Loom: ${hasLoom ? '✓' : '✗'}`);
+      this.log('INFO', `CSM response tracked for query ${queryId}`, {
+        responder: responderUsername,
+        responseTimeSeconds,
+        qualityScore: qualityAnalysis?.overall_quality_score ?? null,
+        intent,
+        sentimentMessageId,
+        hasLoom,
+      });
 
-      return { responseTimeSeconds, qualityAnalysis, responderId, responderUsername, sentimentMessageId };
+      // Daily counts are left to the caller, which commits them with its ledger stage
+      return { responseTimeSeconds, qualityAnalysis, responderId, responderUsername, sentimentMessageId, hasLoom };
 
     } catch (error: any) {
       this.log('ERROR', `Failed to track CSM response: ${error.message}`);
@@ -612,12 +744,187 @@ export class Analytics {
     }
   }
 
+  /**
+   * Record a team reply as a question's first response (an earlier one is kept) and stop its escalation
+   * trackCSMResponse calls this for the question it scores; replies matched to several questions
+   * record the others through it directly.
+   */
+  async recordFirstResponse(queryId: number, queryTimestamp: number, responseMessage: any, qualityScore: number | null = null) {
+    const responseTimestamp = Math.floor(
+      new Date(responseMessage.createdTimestamp || responseMessage.timestamp).getTime() / 1000
+    );
+    const normalizedQueryTimestamp = queryTimestamp > 9999999999 ? Math.floor(queryTimestamp / 1000) : queryTimestamp;
+    const responderId = responseMessage.author?.id || responseMessage.author_id;
+    const responderUsername = responseMessage.author?.username || responseMessage.author_username;
+
+    if (this.config.consoleOnly) {
+      this.log('INFO', `[CONSOLE-ONLY] Would record first response to query ${queryId}`);
+      return;
+    }
+
+    try {
+      // Update questions with first response metrics (for frontend)
+      await this.db.execute({
+        sql: `UPDATE questions SET 
+          response_time_seconds = COALESCE(response_time_seconds, ?),
+          first_response_at = COALESCE(first_response_at, ?),
+          response_quality_score = COALESCE(response_quality_score, ?),
+          updated_at = unixepoch()
+        WHERE id = ?`,
+        args: [Math.max(0, responseTimestamp - normalizedQueryTimestamp), responseTimestamp, qualityScore, queryId]
+      });
+
+      // A reply stops the escalation of an unanswered urgent question (lib/escalations.ts)
+      const cancelled = await this.db.execute({
+        sql: `UPDATE question_escalations SET cancelled_at = ?, cancelled_by_id = ?
+              WHERE question_id = ? AND cancelled_at IS NULL`,
+        args: [responseTimestamp, responderId, queryId]
+      });
+      if (cancelled.rowsAffected > 0) {
+        this.log('INFO', `Escalation of query ${queryId} cancelled by ${responderUsername}'s reply`);
+      }
+    } catch (error: any) {
+      this.log('ERROR', `Failed to record first response to query ${queryId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Decide whether a client message says a recently resolved question is not fixed, or confirms it is
+   * candidates are the channel's recently resolved questions; linked means the message is tied to
+   * them by reply reference or thread (otherwise the AI matches by meaning).
+   * Only questions the client has not confirmed yet can be confirmed.
+   */
+  async detectResolutionFollowUp(
+    message: any,
+    candidates: Array<{ id: number; content: string; summary: string | null; confirmedAt: number | null }>,
+    linked = false
+  ): Promise<{ reopens: number | null; confirms: number | null }> {
+    if (candidates.length === 0) return { reopens: null, confirms: null };
+
+    try {
+      const questionsList = candidates.map(q =>
+        `Question ${q.id}: ${q.summary || q.content.substring(0, 200)}`
+      ).join('\n');
+      const link = linked ? 'The message replies to the conversation about these questions.\n\n' : '';
+
+      const completion = await trackAICall('resolution_follow_up', () => this.openai.chat.completions.create({
+        model: this.config.openaiModel,
+        messages: [
+          { role: 'system', content: RESOLUTION_FOLLOW_UP_PROMPT },
+          { role: 'user', content: `${link}Recently resolved questions:\n${questionsList}\n\nClient message:\n"${message.content}"` }
+        ],
+        max_completion_tokens: 200,
+      }), isAIUnavailableError);
+
+      let jsonStr = completion.choices[0]?.message?.content?.trim() || '{}';
+      if (jsonStr.includes('```')) {
+        jsonStr = jsonStr.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+      }
+
+      const result = JSON.parse(jsonStr);
+      const reopens = candidates.find(q => q.id === Number(result.reopens))?.id ?? null;
+      const confirms = candidates.find(q => q.id === Number(result.confirms) && q.id !== reopens && !q.confirmedAt)?.id ?? null;
+      return { reopens, confirms };
+
+    } catch (error: any) {
+      this.log('ERROR', `Resolution follow-up detection failed: ${error.message}`);
+      if (this.config.throwOnAIUnavailable && isAIUnavailableError(error)) throw error;
+      return { reopens: null, confirms: null };
+    }
+  }
+
+  /**
+   * Copy a resolved question's resolution time to the resolver's response
+   */
+  async recordResolution(queryId: number, resolverId: string) {
+    if (this.config.consoleOnly) {
+      this.log('INFO', `[CONSOLE-ONLY] Would record resolution time of query ${queryId} for ${resolverId}`);
+      return;
+    }
+
+    try {
+      await this.db.execute({
+        sql: `UPDATE csm_response_analytics SET
+                resolution_time_seconds = (SELECT resolution_time_seconds FROM questions WHERE id = ?),
+                updated_at = unixepoch()
+              WHERE id = (${RESOLVER_RESPONSE_SQL})`,
+        args: [queryId, queryId, resolverId]
+      });
+    } catch (error: any) {
+      this.log('ERROR', `Failed to record resolution time: ${error.message}`);
+    }
+  }
+
+  /**
+   * Record that the client confirmed a resolved question is fixed (on the question and the resolver's response)
+   * confirmed_resolution_time_seconds leaves out the time spent waiting on the client, like resolution_time_seconds
+   */
+  async recordClientConfirmation(queryId: number, resolverId: string | null, confirmedAt: number) {
+    if (this.config.consoleOnly) {
+      this.log('INFO', `[CONSOLE-ONLY] Would record client confirmation of query ${queryId}`);
+      return;
+    }
+
+    try {
+      await this.db.batch([
+        {
+          sql: `UPDATE questions SET
+                  client_confirmed_at = ?,
+                  confirmed_resolution_time_seconds = MAX(0, ? - created_at - COALESCE(waiting_on_client_seconds, 0)),
+                  updated_at = unixepoch()
+                WHERE id = ? AND status = 'resolved' AND client_confirmed_at IS NULL`,
+          args: [confirmedAt, confirmedAt, queryId]
+        },
+        {
+          sql: `UPDATE csm_response_analytics SET
+                  client_confirmed_at = ?,
+                  confirmed_resolution_time_seconds = (SELECT confirmed_resolution_time_seconds FROM questions WHERE id = ?),
+                  updated_at = unixepoch()
+                WHERE id = (${RESOLVER_RESPONSE_SQL}) AND client_confirmed_at IS NULL`,
+          args: [confirmedAt, queryId, queryId, resolverId]
+        },
+      ], 'write');
+
+      this.log('INFO', `Client confirmed resolution of query ${queryId}`, { queryId, resolverId, confirmedAt });
+    } catch (error: any) {
+      this.log('ERROR', `Failed to record client confirmation: ${error.message}`);
+    }
+  }
+
+  /**
+   * Count a reopened question against the team member who resolved it
+   * The resolver's latest response to the question carries the reopen (see getCSMPerformanceMetrics)
+   */
+  async recordReopenedResolution(queryId: number, resolverId: string) {
+    if (this.config.consoleOnly) {
+      this.log('INFO', `[CONSOLE-ONLY] Would count reopen of query ${queryId} against ${resolverId}`);
+      return;
+    }
+
+    try {
+      const result = await this.db.execute({
+        sql: `UPDATE csm_response_analytics SET
+                reopen_count = COALESCE(reopen_count, 0) + 1,
+                updated_at = unixepoch()
+              WHERE id = (${RESOLVER_RESPONSE_SQL})`,
+        args: [queryId, resolverId]
+      });
+
+      if (result.rowsAffected === 0) {
+        this.log('DEBUG', `No response from ${resolverId} to query ${queryId} to count the reopen against`);
+      }
+    } catch (error: any) {
+      this.log('ERROR', `Failed to record reopened resolution: ${error.message}`);
+    }
+  }
+
   /**
    * Increment a specific metric in the daily summary
+   * date (YYYY-MM-DD) defaults to today; backfilled messages pass their own date
    */
-  async incrementDailyMetric(channelId: string, metricName: string, value = 1) {
+  async incrementDailyMetric(channelId: string, metricName: string, value = 1, date: string | null = null) {
     try {
-      const targetDate = new Date().toISOString().split('T')[0];
+      const targetDate = date || new Date().toISOString().split('T')[0];
 
       if (this.config.consoleOnly) {
         this.log('INFO', `[CONSOLE-ONLY] Would increment daily metric ${metricName} by ${value} for ${channelId}`);
@@ -658,7 +965,7 @@ export class Analytics {
       const lastClientMsg = await this.db.execute({
         sql: `SELECT message_timestamp, is_complaint, is_frustration, is_confusion, is_cancellation_signal, is_pause_request, is_payment_issue
               FROM customer_sentiment 
-              WHERE channel_id = ? ORDER BY message_timestamp DESC LIMIT 1`,
+              WHERE channel_id = ? AND deleted_at IS NULL ORDER BY message_timestamp DESC LIMIT 1`,
         args: [channelId]
       });
 
@@ -679,7 +986,7 @@ export class Analytics {
                 SUM(is_pause_request) as pause_count,
                 SUM(is_payment_issue) as payment_count
               FROM customer_sentiment
-              WHERE channel_id = ? AND message_timestamp > unixepoch() - 2592000`,
+              WHERE channel_id = ? AND deleted_at IS NULL AND message_timestamp > unixepoch() - 2592000`,
         args: [channelId]
       });
 
@@ -740,11 +1047,17 @@ export class Analytics {
         args: [channelId, lastClientAt, lastTeamAt, inactivityDays, riskStatus]
       });
 
-      this.log('INFO', `⚠️ Risk radar calculated for ${channelId}: ${riskStatus} (${inactivityDays}d inactivity, reason: ${riskReason}, signals: ${JSON.stringify({
-        complaints: churnData?.complaint_count || 0,
-        frustrations: churnData?.frustration_count || 0,
-        cancellations: churnData?.cancellation_count || 0
-      })})`);
+      this.log('INFO', `Risk radar calculated for ${channelId}: ${riskStatus}`, {
+        channelId,
+        riskStatus,
+        inactivityDays,
+        riskReason,
+        signals: {
+          complaints: churnData?.complaint_count || 0,
+          frustrations: churnData?.frustration_count || 0,
+          cancellations: churnData?.cancellation_count || 0
+        }
+      });
 
     } catch (error: any) {
       this.log('ERROR', `Failed to calculate risk radar: ${error.message}`);
@@ -768,7 +1081,7 @@ export class Analytics {
       const loomId = loomIdMatch ? loomIdMatch[1] : null;
 
       const messageTimestamp = Math.floor(new Date(message.createdTimestamp || message.timestamp).getTime() / 1000);
-      const messageLink = `https://discord.com/channels/${message.guild?.id || message.guildId}/${channelId}/${message.id}`;
+      const messageLink = `https://discord.com/channels/${message.guild?.id || message.guildId}/${message.channelId || channelId}/${message.id}`;
 
       if (this.config.consoleOnly) {
         this.log('INFO', `[CONSOLE-ONLY] Would track Loom link: ${loomUrl}`);
@@ -811,6 +1124,40 @@ export class Analytics {
     }
   }
 
+  /**
+   * Mark a Loom link as helpful after the client acknowledged it (e.g. 👍 reaction)
+   * Only the first acknowledgement counts towards looms_effective
+   */
+  async markLoomHelpful(message: any, channelId: string, acknowledgedAt: number) {
+    try {
+      const messageLink = `https://discord.com/channels/${message.guild?.id || message.guildId}/${message.channelId || channelId}/${message.id}`;
+
+      if (this.config.consoleOnly) {
+        this.log('INFO', `[CONSOLE-ONLY] Would mark Loom helpful: ${messageLink}`);
+        return null;
+      }
+
+      const result = await this.db.execute({
+        sql: `UPDATE looms SET 
+          was_helpful = 1,
+          client_acknowledged_at = COALESCE(client_acknowledged_at, ?)
+        WHERE discord_msg_link = ? AND (was_helpful IS NULL OR was_helpful = 0)`,
+        args: [acknowledgedAt, messageLink]
+      });
+
+      if (result.rowsAffected === 0) return null;
+
+      await this.incrementDailyMetric(channelId, 'looms_effective', 1);
+
+      this.log('INFO', `Loom marked helpful by client`, { messageLink });
+      return { messageLink, acknowledgedAt };
+
+    } catch (error: any) {
+      this.log('ERROR', `Failed to mark Loom helpful: ${error.message}`);
+      return null;
+    }
+  }
+
   // ==========================================================================
   // REPEATED REQUESTS TRACKING
   // ==========================================================================
@@ -827,14 +1174,14 @@ export class Analytics {
         return null;
       }
 
-      const completion = await this.openai.chat.completions.create({
+      const completion = await trackAICall('question_categorization', () => this.openai.chat.completions.create({
         model: this.config.openaiModel,
         messages: [
           { role: 'system', content: QUESTION_CATEGORIZATION_PROMPT },
           { role: 'user', content: `Categorize this customer question:\n\n"${message.content}"` }
         ],
         max_completion_tokens: 1000,
-      });
+      }), isAIUnavailableError);
 
       const responseContent = completion.choices[0]?.message?.content?.trim();
       if (!responseContent) {
@@ -901,15 +1248,15 @@ export class Analytics {
   async createRepeatedRequest(message: any, channelId: string, categorization: any, questionId: number | null = null) {
     try {
       const messageTimestamp = Math.floor(new Date(message.createdTimestamp || message.timestamp).getTime() / 1000);
-      const messageLink = `https://discord.com/channels/${message.guild?.id || message.guildId}/${channelId}/${message.id}`;
+      const messageLink = `https://discord.com/channels/${message.guild?.id || message.guildId}/${message.channelId || channelId}/${message.id}`;
 
       // Generate embedding for the canonical question
       let topicEmbedding = null;
       try {
-        const embeddingResponse = await this.openai.embeddings.create({
+        const embeddingResponse = await trackAICall('topic_embedding', () => this.openai.embeddings.create({
           model: 'text-embedding-3-small',
           input: categorization.canonical_question,
-        });
+        }), isAIUnavailableError);
         topicEmbedding = embeddingResponse.data[0].embedding;
       } catch (e: any) {
         this.log('WARN', `Failed to generate embedding for top issue: ${e.message}`);
@@ -964,7 +1311,7 @@ export class Analytics {
   async updateRepeatedRequest(topicId: number, message: any, channelId: string, categorization: any, questionId: number | null = null) {
     try {
       const messageTimestamp = Math.floor(new Date(message.createdTimestamp || message.timestamp).getTime() / 1000);
-      const messageLink = `https://discord.com/channels/${message.guild?.id || message.guildId}/${channelId}/${message.id}`;
+      const messageLink = `https://discord.com/channels/${message.guild?.id || message.guildId}/${message.channelId || channelId}/${message.id}`;
 
       // Update topic count
       await this.db.execute({
@@ -1002,6 +1349,28 @@ export class Analytics {
     }
   }
 
+  /**
+   * Refresh stored issue instances after the source message was edited
+   */
+  async updateRepeatedRequestContent(messageId: string, content: string) {
+    try {
+      if (this.config.consoleOnly) {
+        this.log('INFO', `[CONSOLE-ONLY] Would update issue instances for edited message ${messageId}`);
+        return;
+      }
+
+      await this.db.execute({
+        sql: `UPDATE \`topissuescomparison-job\` SET message_content = ? WHERE message_id = ?`,
+        args: [content, messageId]
+      });
+
+      this.log('DEBUG', `Updated issue instances for edited message ${messageId}`);
+
+    } catch (error: any) {
+      this.log('ERROR', `Failed to update issue instances: ${error.message}`);
+    }
+  }
+
   // ==========================================================================
   // DAILY SUMMARY
   // ==========================================================================
@@ -1016,10 +1385,10 @@ export class Analytics {
       const startOfDay = Math.floor(new Date(targetDate).getTime() / 1000);
       const endOfDay = startOfDay + 86400;
 
-      // 1. Message Counts
+      // 1. Message Counts (client messages from the ledger - every routing profile writes it, not every one runs sentiment)
       const messageStats = await this.db.execute({
         sql: `SELECT 
-          (SELECT COUNT(*) FROM customer_sentiment WHERE channel_id = ? AND message_timestamp >= ? AND message_timestamp < ?) as client_msgs,
+          (SELECT COUNT(*) FROM processed_messages WHERE channel_id = ? AND is_team_member = 0 AND deleted_at IS NULL AND message_timestamp >= ? AND message_timestamp < ?) as client_msgs,
           (SELECT COUNT(*) FROM csm_response_analytics WHERE channel_id = ? AND response_timestamp >= ? AND response_timestamp < ?) as team_msgs`,
         args: [channelId, startOfDay, endOfDay, channelId, startOfDay, endOfDay]
       });
@@ -1028,10 +1397,12 @@ export class Analytics {
       const queryStats = await this.db.execute({
         sql: `SELECT 
           COUNT(*) as total_queries,
-          SUM(CASE WHEN status = 'resolved' THEN 1 ELSE 0 END) as resolved_queries,
-          AVG(resolution_time_seconds) as avg_resolution_time
+          SUM(CASE WHEN status IN ('resolved', 'closed') THEN 1 ELSE 0 END) as resolved_queries,
+          AVG(resolution_time_seconds) as avg_resolution_time,
+          SUM(CASE WHEN client_confirmed_at IS NOT NULL THEN 1 ELSE 0 END) as confirmed_queries,
+          AVG(confirmed_resolution_time_seconds) as avg_confirmed_resolution_time
         FROM questions 
-        WHERE channel_id = ? AND created_at >= ? AND created_at < ?`,
+        WHERE channel_id = ? AND deleted_at IS NULL AND created_at >= ? AND created_at < ?`,
         args: [channelId, startOfDay, endOfDay]
       });
 
@@ -1044,7 +1415,7 @@ export class Analytics {
           SUM(CASE WHEN sentiment_type = 'frustrated' THEN 1 ELSE 0 END) as frustrated,
           AVG(sentiment_score) as avg_score
         FROM customer_sentiment 
-        WHERE channel_id = ? AND message_timestamp >= ? AND message_timestamp < ?`,
+        WHERE channel_id = ? AND deleted_at IS NULL AND message_timestamp >= ? AND message_timestamp < ?`,
         args: [channelId, startOfDay, endOfDay]
       });
 
@@ -1074,7 +1445,7 @@ export class Analytics {
           SUM(CASE WHEN is_disengagement = 1 THEN 1 ELSE 0 END) as disengagements,
           SUM(CASE WHEN is_pause_request = 1 OR is_payment_issue = 1 OR is_cancellation_signal = 1 THEN 1 ELSE 0 END) as total_churn_signals
         FROM customer_sentiment 
-        WHERE channel_id = ? AND message_timestamp >= ? AND message_timestamp < ?`,
+        WHERE channel_id = ? AND deleted_at IS NULL AND message_timestamp >= ? AND message_timestamp < ?`,
         args: [channelId, startOfDay, endOfDay]
       });
 
@@ -1085,7 +1456,7 @@ export class Analytics {
         sql: `SELECT 
           AVG(sentiment_score) as avg_score
         FROM customer_sentiment 
-        WHERE channel_id = ? AND message_timestamp >= ? AND message_timestamp < ?`,
+        WHERE channel_id = ? AND deleted_at IS NULL AND message_timestamp >= ? AND message_timestamp < ?`,
         args: [channelId, yesterdayStart, yesterdayEnd]
       });
 
@@ -1110,13 +1481,13 @@ export class Analytics {
           total_client_messages, total_team_messages,
           total_queries, queries_resolved,
           avg_response_time_seconds, min_response_time_seconds, max_response_time_seconds,
-          avg_resolution_time_seconds,
+          avg_resolution_time_seconds, queries_client_confirmed, avg_confirmed_resolution_time_seconds,
           avg_overall_quality, avg_clarity_score, looms_sent,
           positive_messages, neutral_messages, negative_messages, frustrated_messages,
           churn_signals_count, complaints_count,
           engagement_score,
           created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, unixepoch(), unixepoch())
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, unixepoch(), unixepoch())
         ON CONFLICT(channel_id, date) DO UPDATE SET
           total_client_messages = excluded.total_client_messages,
           total_team_messages = excluded.total_team_messages,
@@ -1126,6 +1497,8 @@ export class Analytics {
           min_response_time_seconds = excluded.min_response_time_seconds,
           max_response_time_seconds = excluded.max_response_time_seconds,
           avg_resolution_time_seconds = excluded.avg_resolution_time_seconds,
+          queries_client_confirmed = excluded.queries_client_confirmed,
+          avg_confirmed_resolution_time_seconds = excluded.avg_confirmed_resolution_time_seconds,
           avg_overall_quality = excluded.avg_overall_quality,
           avg_clarity_score = excluded.avg_clarity_score,
           looms_sent = excluded.looms_sent,
@@ -1148,6 +1521,8 @@ export class Analytics {
           responseStats.rows[0]?.min_response_time || null,
           responseStats.rows[0]?.max_response_time || null,
           queryStats.rows[0]?.avg_resolution_time || null,
+          queryStats.rows[0]?.confirmed_queries || 0,
+          queryStats.rows[0]?.avg_confirmed_resolution_time || null,
           responseStats.rows[0]?.avg_quality || null,
           responseStats.rows[0]?.avg_clarity || null,
           responseStats.rows[0]?.looms_sent || 0,
@@ -1163,11 +1538,18 @@ export class Analytics {
 
       // 9. Log detailed sentiment summary with trend analysis
       const yesterdayAvg = yesterdaySentiment.rows[0]?.avg_score || 0;
-      const sentimentTrend = avgSentiment > yesterdayAvg ? '📈 improving' : avgSentiment < yesterdayAvg ? '📉 declining' : '➡️ stable';
+      const sentimentTrend = avgSentiment > yesterdayAvg ? 'improving' : avgSentiment < yesterdayAvg ? 'declining' : 'stable';
 
-      this.log('INFO', `📈 Daily summary calculated for ${channelId} on ${targetDate}:\n${JSON.stringify({
+      this.log('INFO', `Daily summary calculated for ${channelId} on ${targetDate}`, {
+        channelId,
+        date: targetDate,
         messages: { clients: clientMsgs, team: teamMsgs },
-        queries: { total: totalQueries, resolved: resolvedQueries, rate: `${(resolutionRate * 100).toFixed(1)}%` },
+        queries: {
+          total: totalQueries,
+          resolved: resolvedQueries,
+          rate: `${(resolutionRate * 100).toFixed(1)}%`,
+          client_confirmed: queryStats.rows[0]?.confirmed_queries || 0,
+        },
         sentiment: {
           avg_score: avgSentiment.toFixed(2),
           trend: sentimentTrend,
@@ -1192,8 +1574,8 @@ export class Analytics {
           avg_quality_score: responseStats.rows[0]?.avg_quality ? responseStats.rows[0]?.avg_quality.toFixed(1) : 'N/A',
           looms_sent: responseStats.rows[0]?.looms_sent || 0
         },
-        engagement_score: `${Math.round(engagementScore)}/100`
-      }, null, 2)}`);
+        engagement_score: Math.round(engagementScore)
+      });
 
     } catch (error: any) {
       this.log('ERROR', `Failed to calculate daily summary: ${error.message}`);
@@ -1250,8 +1632,102 @@ export class Analytics {
     }
   }
 
+  /**
+   * Get risk profile for a single client channel
+   */
+  async getClientRiskProfile(channelId: string) {
+    try {
+      const result = await this.db.execute({
+        sql: `SELECT c.*, rr.risk_status, rr.inactivity_days, rr.last_client_msg_at, rr.last_team_reply_at,
+                (SELECT COUNT(*) FROM questions q
+                 WHERE q.channel_id = c.channel_id
+                 AND q.status IN (${UNRESOLVED_STATUSES.map(status => `'${status}'`).join(', ')})
+                 AND q.deleted_at IS NULL) as open_questions
+              FROM clients c
+              LEFT JOIN risk_radar rr ON c.channel_id = rr.channel_id
+              WHERE c.channel_id = ?`,
+        args: [channelId]
+      });
+
+      return result.rows[0] || null;
+
+    } catch (error: any) {
+      this.log('ERROR', `Failed to get client risk profile: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Get how team replies were matched to questions
+   * Shows how often the AI fallback was needed versus deterministic matching
+   */
+  async getReplyMatchMethodBreakdown(days = 30) {
+    try {
+      const since = Math.floor(Date.now() / 1000) - (days * 86400);
+
+      const result = await this.db.execute({
+        sql: `SELECT 
+          COALESCE(match_method, 'unknown') as match_method,
+          COUNT(*) as responses,
+          ROUND(COUNT(*) * 100.0 / SUM(COUNT(*)) OVER (), 1) as percentage
+        FROM csm_response_analytics
+        WHERE response_timestamp >= ?
+        GROUP BY COALESCE(match_method, 'unknown')
+        ORDER BY responses DESC`,
+        args: [since]
+      });
+
+      return result.rows;
+
+    } catch (error: any) {
+      this.log('ERROR', `Failed to get reply match method breakdown: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Get how long questions spend in each lifecycle status (lib/question-lifecycle.ts)
+   * Covers questions raised in the last N days; time in their current status counts up to now
+   */
+  async getTimeInStatusBreakdown(channelId: string | null = null, days = 30) {
+    try {
+      const since = Math.floor(Date.now() / 1000) - (days * 86400);
+      const channelFilter = channelId ? 'AND q.channel_id = ?' : '';
+
+      const result = await this.db.execute({
+        sql: `SELECT
+          status,
+          COUNT(DISTINCT question_id) as questions,
+          SUM(seconds) as total_seconds,
+          AVG(seconds) as avg_seconds
+        FROM (
+          SELECT h.question_id, h.from_status as status, h.seconds_in_previous_status as seconds
+          FROM question_status_history h
+          JOIN questions q ON q.id = h.question_id
+          WHERE q.created_at >= ? AND q.deleted_at IS NULL ${channelFilter}
+          UNION ALL
+          SELECT q.id, COALESCE(q.status, 'open'), unixepoch() - COALESCE(q.status_changed_at, q.created_at)
+          FROM questions q
+          WHERE q.created_at >= ? AND q.deleted_at IS NULL ${channelFilter}
+            AND COALESCE(q.status, 'open') IN (${UNRESOLVED_STATUSES.map(status => `'${status}'`).join(', ')})
+        )
+        GROUP BY status
+        ORDER BY total_seconds DESC`,
+        args: channelId ? [since, channelId, since, channelId] : [since, since]
+      });
+
+      return result.rows;
+
+    } catch (error: any) {
+      this.log('ERROR', `Failed to get time in status breakdown: ${error.message}`);
+      return [];
+    }
+  }
+
   /**
    * Get CSM performance metrics
+   * reopen_rate: share of a responder's answers whose question the client reopened
+   * Resolution times are those of the questions the responder resolved (client-confirmed ones separately)
    */
   async getCSMPerformanceMetrics(userId = null, days = 30) {
     try {
@@ -1262,10 +1738,16 @@ export class Analytics {
         responder_username,
         COUNT(*) as total_responses,
         AVG(response_time_seconds) as avg_response_time,
+        AVG(resolution_time_seconds) as avg_resolution_time,
+        SUM(CASE WHEN client_confirmed_at IS NOT NULL THEN 1 ELSE 0 END) as client_confirmed_resolutions,
+        AVG(confirmed_resolution_time_seconds) as avg_confirmed_resolution_time,
         AVG(overall_quality_score) as avg_quality,
         SUM(contains_loom_link) as looms_sent,
         SUM(CASE WHEN response_usefulness = 'highly_useful' THEN 1 ELSE 0 END) as highly_useful_count,
-        SUM(CASE WHEN response_professionalism = 'excellent' THEN 1 ELSE 0 END) as excellent_professionalism
+        SUM(CASE WHEN response_professionalism = 'excellent' THEN 1 ELSE 0 END) as excellent_professionalism,
+        SUM(CASE WHEN reopen_count > 0 THEN 1 ELSE 0 END) as reopened_resolutions,
+        ROUND(SUM(CASE WHEN reopen_count > 0 THEN 1 ELSE 0 END) * 100.0
+          / NULLIF(SUM(CASE WHEN COALESCE(message_intent, 'answer') = 'answer' THEN 1 ELSE 0 END), 0), 1) as reopen_rate
       FROM csm_response_analytics 
       WHERE query_timestamp >= ?`;
 
@@ -1286,5 +1768,74 @@ export class Analytics {
       return [];
     }
   }
+
+  /**
+   * Get SLA breach rates per client (first response and resolution)
+   * Rates are breached / measured, over questions raised in the last N days with a final SLA outcome
+   */
+  async getClientSLABreachRates(days = 30) {
+    try {
+      const since = Math.floor(Date.now() / 1000) - (days * 86400);
+
+      const result = await this.db.execute({
+        sql: `SELECT o.channel_id, c.client_name, c.segment,
+          ${SLA_BREACH_RATE_COLUMNS}
+        FROM (${SLA_OUTCOMES_SQL}) o
+        LEFT JOIN clients c ON c.channel_id = o.channel_id
+        GROUP BY o.channel_id
+        ORDER BY resolution_breach_rate DESC, first_response_breach_rate DESC`,
+        args: [since]
+      });
+
+      return result.rows;
+
+    } catch (error: any) {
+      this.log('ERROR', `Failed to get client SLA breach rates: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Get SLA breach rates per CSM, alongside getCSMPerformanceMetrics
+   * First response outcomes count against the question's first responder, resolution outcomes
+   * against its resolver (breaches of questions nobody resolved yet are not attributed)
+   */
+  async getCSMSLABreachRates(userId = null, days = 30) {
+    try {
+      const since = Math.floor(Date.now() / 1000) - (days * 86400);
+
+      let sql = `SELECT o.responder_user_id,
+        (SELECT r.responder_username FROM csm_response_analytics r
+         WHERE r.responder_user_id = o.responder_user_id
+         ORDER BY r.response_timestamp DESC LIMIT 1) as responder_username,
+        ${SLA_BREACH_RATE_COLUMNS}
+      FROM (
+        SELECT metric, breached,
+          CASE WHEN metric = 'first_response'
+            THEN (SELECT r.responder_user_id FROM csm_response_analytics r
+                  WHERE r.query_id = outcomes.question_id
+                  ORDER BY r.response_timestamp ASC, r.id ASC LIMIT 1)
+            ELSE resolved_by_id END as responder_user_id
+        FROM (${SLA_OUTCOMES_SQL}) outcomes
+      ) o
+      WHERE o.responder_user_id IS NOT NULL`;
+
+      const args = [since];
+
+      if (userId) {
+        sql += ` AND o.responder_user_id = ?`;
+        args.push(userId);
+      }
+
+      sql += ` GROUP BY o.responder_user_id ORDER BY resolution_breach_rate DESC, first_response_breach_rate DESC`;
+
+      const result = await this.db.execute({ sql, args });
+      return result.rows;
+
+    } catch (error: any) {
+      this.log('ERROR', `Failed to get CSM SLA breach rates: ${error.message}`);
+      return [];
+    }
+  }
 }
 
@@ -0,0 +1,226 @@
+/**
+ * Channel Routing Rules
+ * Decides which Discord channels are client channels and how they are processed
+ *
+ * Rules are loaded from a JSON file (default: config/routing-rules.json) and
+ * hot-reloaded when the file changes. A rule matches by any combination of:
+ * - guildId / guildName
+ * - categoryId (the channel's parent category)
+ * - channelNamePattern (case-insensitive regex; named groups `client` and `segment` are used when present)
+ *
+ * The first matching rule assigns the client name, segment (gca/gci/gcp) and
+ * processing profile. Per-channel overrides (keyed by channel id) take precedence
+ * over rules and can include or exclude a single channel.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { GuildBasedChannel } from 'discord.js';
+import type { PipelineStage } from './message-ledger';
+import { createLogger } from './logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RoutingRule {
+  name: string;
+  guildId?: string;
+  guildName?: string;
+  categoryId?: string;
+  channelNamePattern?: string;
+  clientName?: string;
+  segment?: string;
+  profile?: string;
+}
+
+export interface ChannelOverride {
+  enabled?: boolean;
+  clientName?: string;
+  segment?: string;
+  profile?: string;
+}
+
+export interface RoutingConfig {
+  profiles: Record<string, PipelineStage[]>;
+  rules: RoutingRule[];
+  overrides: Record<string, ChannelOverride>;
+}
+
+export interface ChannelRoute {
+  clientName: string;
+  segment: string | null;
+  profile: string;
+  stages: Set<PipelineStage>;
+  ruleName: string;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const ALL_PIPELINE_STAGES: PipelineStage[] = ['triage', 'sentiment', 'quality', 'looms', 'urls'];
+
+export const DEFAULT_PROFILE = 'full';
+
+// Used when the rules file is missing - matches the original hardcoded server and prefixes
+export const DEFAULT_ROUTING_CONFIG: RoutingConfig = {
+  profiles: { [DEFAULT_PROFILE]: ALL_PIPELINE_STAGES },
+  rules: [
+    {
+      name: 'client-channels',
+      guildName: 'ClientAcquisition.io',
+      channelNamePattern: '^(?<segment>gca|gci|gcp)-(?<client>.+)$',
+      profile: DEFAULT_PROFILE,
+    },
+  ],
+  overrides: {},
+};
+
+const RELOAD_POLL_INTERVAL_MS = 2000;
+
+// ============================================================================
+// ROUTER
+// ============================================================================
+
+const logger = createLogger('router');
+
+export class ChannelRouter {
+  private config: any;
+  private routing: RoutingConfig = DEFAULT_ROUTING_CONFIG;
+  private patterns = new Map<string, RegExp>();
+
+  constructor(config: any = {}) {
+    this.config = {
+      debug: config.debug || false,
+      ...config,
+      // The listener passes ROUTING_RULES_PATH through as-is, so unset must still fall back
+      rulesPath: config.rulesPath || path.join(process.cwd(), 'config', 'routing-rules.json'),
+    };
+  }
+
+  log(level: string, message: string, data: any = null) {
+    if (level === 'DEBUG' && !this.config.debug) return;
+    logger.log(level, message, data);
+  }
+
+  get rules() {
+    return this.routing.rules;
+  }
+
+  /**
+   * Load (or reload) the rules file
+   * An invalid file is rejected and the previously loaded rules stay active
+   */
+  load() {
+    if (!fs.existsSync(this.config.rulesPath)) {
+      this.log('WARN', `Routing rules file not found at ${this.config.rulesPath} - using default rules`);
+      this.apply(DEFAULT_ROUTING_CONFIG);
+      return true;
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.config.rulesPath, 'utf8'));
+      this.apply(this.validate(parsed));
+      this.log('INFO', `Loaded ${this.routing.rules.length} routing rules and ${Object.keys(this.routing.overrides).length} channel overrides from ${this.config.rulesPath}`);
+      return true;
+    } catch (error: any) {
+      this.log('ERROR', `Invalid routing rules in ${this.config.rulesPath} - keeping previous rules: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Reload the rules whenever the file changes (polling survives editors that replace the file)
+   */
+  watch() {
+    fs.watchFile(this.config.rulesPath, { interval: RELOAD_POLL_INTERVAL_MS }, (curr, prev) => {
+      if (curr.mtimeMs === prev.mtimeMs) return;
+      this.log('INFO', `Routing rules changed - reloading`);
+      this.load();
+    });
+  }
+
+  unwatch() {
+    fs.unwatchFile(this.config.rulesPath);
+  }
+
+  /**
+   * Resolve the route for a client channel (not a thread), or null if it is not monitored
+   */
+  resolve(channel: GuildBasedChannel): ChannelRoute | null {
+    const override = this.routing.overrides[channel.id];
+    if (override?.enabled === false) return null;
+
+    for (const rule of this.routing.rules) {
+      const match = this.matchRule(rule, channel);
+      if (!match) continue;
+
+      return this.buildRoute(rule.name, {
+        clientName: override?.clientName || rule.clientName || match.groups?.client,
+        segment: override?.segment || rule.segment || match.groups?.segment,
+        profile: override?.profile || rule.profile,
+      }, channel);
+    }
+
+    // Overrides can also opt in a channel no rule matches
+    if (override?.enabled) {
+      return this.buildRoute('override', override, channel);
+    }
+
+    return null;
+  }
+
+  private matchRule(rule: RoutingRule, channel: GuildBasedChannel) {
+    if (rule.guildId && channel.guild.id !== rule.guildId) return null;
+    if (rule.guildName && channel.guild.name !== rule.guildName) return null;
+    if (rule.categoryId && channel.parentId !== rule.categoryId) return null;
+
+    if (!rule.channelNamePattern) return { groups: undefined } as { groups?: Record<string, string> };
+
+    const pattern = this.patterns.get(rule.name)!;
+    return pattern.exec(channel.name);
+  }
+
+  private buildRoute(ruleName: string, fields: { clientName?: string; segment?: string; profile?: string }, channel: GuildBasedChannel): ChannelRoute {
+    const profile = fields.profile && this.routing.profiles[fields.profile] ? fields.profile : DEFAULT_PROFILE;
+
+    return {
+      clientName: fields.clientName || channel.name,
+      segment: fields.segment?.toLowerCase() || null,
+      profile,
+      stages: new Set(this.routing.profiles[profile] || ALL_PIPELINE_STAGES),
+      ruleName,
+    };
+  }
+
+  private validate(parsed: any): RoutingConfig {
+    if (!Array.isArray(parsed.rules)) throw new Error('"rules" must be an array');
+
+    const profiles: Record<string, PipelineStage[]> = { [DEFAULT_PROFILE]: ALL_PIPELINE_STAGES, ...(parsed.profiles || {}) };
+    for (const [name, stages] of Object.entries(profiles)) {
+      if (!Array.isArray(stages) || stages.some(s => !ALL_PIPELINE_STAGES.includes(s))) {
+        throw new Error(`Profile "${name}" must be a list of stages (${ALL_PIPELINE_STAGES.join(', ')})`);
+      }
+    }
+
+    const ruleNames = new Set<string>();
+    for (const rule of parsed.rules) {
+      if (!rule.name) throw new Error('Every rule needs a "name"');
+      // Compiled patterns are looked up by rule name
+      if (ruleNames.has(rule.name)) throw new Error(`Rule name "${rule.name}" is used more than once`);
+      ruleNames.add(rule.name);
+      if (rule.profile && !profiles[rule.profile]) throw new Error(`Rule "${rule.name}" uses unknown profile "${rule.profile}"`);
+      if (rule.channelNamePattern) new RegExp(rule.channelNamePattern, 'i'); // Throws on invalid regex
+    }
+
+    return { profiles, rules: parsed.rules, overrides: parsed.overrides || {} };
+  }
+
+  private apply(routing: RoutingConfig) {
+    this.patterns = new Map(routing.rules
+      .filter(rule => rule.channelNamePattern)
+      .map(rule => [rule.name, new RegExp(rule.channelNamePattern!, 'i')]));
+    this.routing = routing;
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Escalations
+ * Tiered alerts for urgent questions nobody on the team has answered yet
+ *
+ * A question is urgent when triage rated it High urgency or Critical priority. While it has no
+ * team response, it is escalated in tiers once it has waited long enough for each:
+ * - channel: an embed in the internal escalation channel
+ * - owner:   a DM to the client's owner (the team member who last replied in the client channel)
+ * - lead:    a DM to every lead
+ * Each tier is sent at most once per question and in order; when the listener was down past several
+ * tiers, only the highest one due is sent. Tiers without recipients are recorded but not delivered.
+ *
+ * Escalations are recorded in question_escalations. Analytics.recordFirstResponse cancels them when it
+ * records a reply to the question, which also stops any further tiers.
+ */
+
+import { EmbedBuilder } from 'discord.js';
+import { UNRESOLVED_STATUSES } from './question-lifecycle';
+import { escalationsSent } from './metrics';
+import { createLogger } from './logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const ESCALATION_TIERS = ['channel', 'owner', 'lead'] as const;
+export type EscalationTier = typeof ESCALATION_TIERS[number];
+
+export interface DueEscalation {
+  tier: EscalationTier;
+  recipientIds: string[]; // Internal channel id for the channel tier, user ids otherwise
+  questionId: number;
+  channelId: string;
+  clientName: string;
+  summary: string;
+  urgency: string;
+  priority: string | null;
+  link: string;
+  createdAt: number;
+  waitingMinutes: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Older questions are never escalated, so a backfill of old history does not page anyone
+const ESCALATION_LOOKBACK_HOURS = 24;
+
+export const ESCALATION_CHECK_INTERVAL_MS = 60 * 1000;
+
+const TIER_COLORS: Record<EscalationTier, number> = {
+  channel: 0xfee75c,
+  owner: 0xf0b232,
+  lead: 0xed4245,
+};
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+const logger = createLogger('escalations');
+
+export class EscalationScheduler {
+  private db: any;
+  private config: any;
+
+  constructor(tursoClient: any, config: any = {}) {
+    this.db = tursoClient;
+    this.config = {
+      debug: config.debug || false,
+      consoleOnly: config.consoleOnly || false,
+      channelId: null,                                       // Internal escalation channel
+      leadIds: [],                                           // Discord user ids of the leads
+      afterMinutes: { channel: 30, owner: 60, lead: 120 },   // Minutes without a team response per tier
+      ...config
+    };
+  }
+
+  log(level: string, message: string, data: any = null) {
+    if (level === 'DEBUG' && !this.config.debug) return;
+    logger.log(level, message, data);
+  }
+
+  /**
+   * Urgent unanswered questions with a tier that is due now
+   */
+  async findDue(now = Math.floor(Date.now() / 1000)): Promise<DueEscalation[]> {
+    try {
+      const firstTierSeconds = Math.min(...ESCALATION_TIERS.map(tier => this.config.afterMinutes[tier])) * 60;
+
+      const result = await this.db.execute({
+        sql: `SELECT q.id, q.channel_id, q.content, q.ai_summary, q.urgency, q.priority, q.discord_msg_link, q.created_at,
+                COALESCE(c.client_name, q.channel_id) as client_name,
+                (SELECT r.responder_user_id FROM csm_response_analytics r
+                 WHERE r.channel_id = q.channel_id AND r.responder_user_id IS NOT NULL
+                 ORDER BY r.response_timestamp DESC LIMIT 1) as owner_id,
+                (SELECT GROUP_CONCAT(e.tier) FROM question_escalations e WHERE e.question_id = q.id) as sent_tiers
+              FROM questions q
+              LEFT JOIN clients c ON c.channel_id = q.channel_id
+              WHERE q.deleted_at IS NULL AND q.first_response_at IS NULL
+                AND q.status IN (${UNRESOLVED_STATUSES.map(status => `'${status}'`).join(', ')})
+                AND (q.urgency = 'High' OR q.priority = 'Critical')
+                AND q.created_at >= ? AND q.created_at <= ?
+                AND NOT EXISTS (SELECT 1 FROM question_escalations e WHERE e.question_id = q.id AND e.cancelled_at IS NOT NULL)
+              ORDER BY q.created_at ASC`,
+        args: [now - ESCALATION_LOOKBACK_HOURS * 3600, now - firstTierSeconds]
+      });
+
+      const due: DueEscalation[] = [];
+      for (const row of result.rows as any[]) {
+        const tier = this.dueTier(now - Number(row.created_at), String(row.sent_tiers || '').split(',').filter(Boolean));
+        if (!tier) continue;
+
+        due.push({
+          tier,
+          recipientIds: tier === 'channel' ? [this.config.channelId]
+            : tier === 'owner' ? (row.owner_id ? [row.owner_id] : [])
+            : this.config.leadIds,
+          questionId: Number(row.id),
+          channelId: row.channel_id,
+          clientName: row.client_name,
+          summary: row.ai_summary || row.content,
+          urgency: row.urgency,
+          priority: row.priority,
+          link: row.discord_msg_link,
+          createdAt: Number(row.created_at),
+          waitingMinutes: Math.floor((now - Number(row.created_at)) / 60),
+        });
+      }
+      return due;
+
+    } catch (error: any) {
+      this.log('ERROR', `Failed to find due escalations: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Record a sent tier with the recipients it was delivered to
+   */
+  async record(escalation: DueEscalation, deliveredTo: string[], at = Math.floor(Date.now() / 1000)) {
+    escalationsSent.inc({ tier: escalation.tier, result: deliveredTo.length > 0 ? 'delivered' : 'undelivered' });
+
+    if (this.config.consoleOnly) {
+      this.log('INFO', `[CONSOLE-ONLY] Would record ${escalation.tier} escalation of question ${escalation.questionId}`);
+      return;
+    }
+
+    try {
+      await this.db.execute({
+        sql: `INSERT INTO question_escalations (question_id, channel_id, tier, recipient_ids, escalated_at)
+              VALUES (?, ?, ?, ?, ?)
+              ON CONFLICT(question_id, tier) DO NOTHING`,
+        args: [escalation.questionId, escalation.channelId, escalation.tier, JSON.stringify(deliveredTo), at]
+      });
+
+      this.log(deliveredTo.length > 0 ? 'INFO' : 'WARN', `Escalated question ${escalation.questionId} (${escalation.tier}) after ${escalation.waitingMinutes} minutes without a team response`, {
+        action: 'escalation',
+        questionId: escalation.questionId,
+        channelId: escalation.channelId,
+        tier: escalation.tier,
+        recipientIds: escalation.recipientIds,
+        deliveredTo,
+      });
+    } catch (error: any) {
+      this.log('ERROR', `Failed to record escalation of question ${escalation.questionId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Highest tier that is due and comes after every tier already sent
+   */
+  private dueTier(waitingSeconds: number, sentTiers: string[]): EscalationTier | null {
+    const lastSent = Math.max(-1, ...sentTiers.map(tier => ESCALATION_TIERS.indexOf(tier as EscalationTier)));
+
+    for (let i = ESCALATION_TIERS.length - 1; i > lastSent; i--) {
+      const tier = ESCALATION_TIERS[i];
+      if (this.isEnabled(tier) && waitingSeconds >= this.config.afterMinutes[tier] * 60) return tier;
+    }
+    return null;
+  }
+
+  private isEnabled(tier: EscalationTier) {
+    if (tier === 'channel') return Boolean(this.config.channelId);
+    if (tier === 'lead') return this.config.leadIds.length > 0;
+    return true;
+  }
+}
+
+// ============================================================================
+// EMBED
+// ============================================================================
+
+/**
+ * Build the alert embed for one escalation (posted to the channel and sent as DMs)
+ */
+export function buildEscalationEmbed(escalation: DueEscalation) {
+  return new EmbedBuilder()
+    .setTitle(`Unanswered ${escalation.priority === 'Critical' ? 'critical' : 'urgent'} question from ${escalation.clientName}`)
+    .setURL(escalation.link)
+    .setColor(TIER_COLORS[escalation.tier])
+    .setDescription((escalation.summary || '').substring(0, 1000))
+    .addFields(
+      { name: 'Client', value: `${escalation.clientName} (<#${escalation.channelId}>)`, inline: true },
+      { name: 'Priority', value: `${escalation.priority || 'Medium'} • ${escalation.urgency} urgency`, inline: true },
+      { name: 'Waiting', value: `${escalation.waitingMinutes} min (since <t:${escalation.createdAt}:t>)`, inline: true },
+      { name: 'Question', value: `#${escalation.questionId} • [jump to message](${escalation.link})` },
+    )
+    .setFooter({ text: `Escalation: ${escalation.tier}` });
+}
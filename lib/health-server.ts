@@ -0,0 +1,151 @@
+/**
+ * Health Server
+ * Small HTTP server for orchestrators and Prometheus
+ *
+ * - GET /healthz  Liveness: runs every health check (Discord gateway, database ping)
+ * - GET /readyz   Readiness: health checks plus the readiness probe (startup finished, not draining)
+ * - GET /metrics  Prometheus text format from the metrics registry
+ *
+ * Checks return a short detail string or throw; a check that does not answer within
+ * checkTimeoutMs counts as failed. Failing checks answer 503 with the per-check results.
+ */
+
+import http from 'http';
+import type { MetricsRegistry } from './metrics';
+import { createLogger } from './logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type HealthCheck = () => Promise<string | void> | string | void;
+
+interface CheckResult {
+  ok: boolean;
+  detail?: string;
+  error?: string;
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+const logger = createLogger('health');
+
+export class HealthServer {
+  private config: any;
+  private server: http.Server | null = null;
+  private checks = new Map<string, HealthCheck>();
+
+  constructor(registry: MetricsRegistry, config: any = {}) {
+    this.config = {
+      port: config.port ?? 8080,
+      host: config.host || '0.0.0.0',
+      checkTimeoutMs: config.checkTimeoutMs || 3000,
+      // Startup is complete (workers running, roster loaded)
+      isReady: config.isReady || (() => true),
+      // Shutting down - no new work should be routed here
+      isDraining: config.isDraining || (() => false),
+      registry,
+      debug: config.debug || false,
+      ...config
+    };
+  }
+
+  log(level: string, message: string, data: any = null) {
+    if (level === 'DEBUG' && !this.config.debug) return;
+    logger.log(level, message, data);
+  }
+
+  registerCheck(name: string, check: HealthCheck) {
+    this.checks.set(name, check);
+  }
+
+  start() {
+    if (this.server) return;
+
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        this.log('ERROR', `Failed to handle ${req.url}: ${error.message}`);
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      });
+    });
+    this.server.on('error', error => this.log('ERROR', `Health server error: ${error.message}`));
+    this.server.listen(this.config.port, this.config.host, () => {
+      this.log('INFO', `Listening on ${this.config.host}:${this.config.port} (/healthz, /readyz, /metrics)`);
+    });
+  }
+
+  async stop() {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD' });
+      res.end();
+      return;
+    }
+
+    const path = (req.url || '/').split('?')[0];
+    switch (path) {
+      case '/healthz': {
+        const checks = await this.runChecks();
+        this.sendJson(res, checks, Object.values(checks).every(c => c.ok));
+        return;
+      }
+
+      case '/readyz': {
+        const checks = await this.runChecks();
+        checks.startup = this.config.isReady() ? { ok: true } : { ok: false, error: 'starting' };
+        if (this.config.isDraining()) checks.shutdown = { ok: false, error: 'draining' };
+        this.sendJson(res, checks, Object.values(checks).every(c => c.ok));
+        return;
+      }
+
+      case '/metrics': {
+        const body = await this.config.registry.render();
+        res.writeHead(200, { 'Content-Type': this.config.registry.contentType });
+        res.end(body);
+        return;
+      }
+
+      default:
+        res.writeHead(404);
+        res.end();
+    }
+  }
+
+  private async runChecks() {
+    const results: Record<string, CheckResult> = {};
+    await Promise.all([...this.checks].map(async ([name, check]) => {
+      results[name] = await this.runCheck(check);
+    }));
+    return results;
+  }
+
+  private async runCheck(check: HealthCheck): Promise<CheckResult> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`timed out after ${this.config.checkTimeoutMs}ms`)), this.config.checkTimeoutMs);
+    });
+
+    try {
+      const detail = await Promise.race([Promise.resolve().then(check), timeout]);
+      return detail ? { ok: true, detail } : { ok: true };
+    } catch (error: any) {
+      return { ok: false, error: error.message };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private sendJson(res: http.ServerResponse, checks: Record<string, CheckResult>, ok: boolean) {
+    res.writeHead(ok ? 200 : 503, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ status: ok ? 'ok' : 'fail', checks }));
+  }
+}
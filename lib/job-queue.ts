@@ -0,0 +1,417 @@
+/**
+ * Durable Job Queue
+ * Persists work in the jobs table and runs it on an in-process worker pool
+ *
+ * - enqueue() stores a job (optionally de-duplicated by key) and wakes a worker
+ * - Workers claim due jobs one at a time, up to `concurrency` in parallel
+ * - Failed jobs are retried with exponential backoff (retryBaseSeconds * 2^(attempt-1))
+ * - After maxAttempts a job is moved to the dead-letter state ('dead')
+ * - Dead jobs can be listed and replayed with the jobs CLI (scripts/jobs.ts)
+ * - Jobs sharing an ordering key run one at a time in order_value order; a job is
+ *   only claimed when it is the head of its key and nothing else in the key is running.
+ *   A retrying job holds back the rest of its key until it completes or is dead-lettered.
+ *
+ * Job states: pending → running → completed | pending (retry) | dead
+ * Jobs left 'running' by a crashed process are put back to 'pending' on start.
+ * stop() drains the running jobs up to a deadline; jobs still running then are put back
+ * to 'pending' without using up an attempt.
+ */
+
+import { createLogger, withLogContext } from './logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+export interface Job {
+  id: number;
+  type: string;
+  payload: any;
+  dedupe_key: string | null;
+  ordering_key: string | null;
+  order_value: number | null;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: number;
+  last_error: string | null;
+  created_at: number;
+  updated_at: number;
+  completed_at: number | null;
+}
+
+export type JobHandler = (payload: any, job: Job) => Promise<void>;
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const MAX_RETRY_DELAY_SECONDS = 3600;
+
+// ============================================================================
+// JOB QUEUE
+// ============================================================================
+
+const logger = createLogger('job_queue');
+
+export class JobQueue {
+  private db: any;
+  private config: any;
+  private handlers = new Map<string, JobHandler>();
+  private running = false;
+  private workers: Promise<void>[] = [];
+  private wakeups: Array<() => void> = [];
+  private activeJobs = 0;
+  private runningJobIds = new Set<number>();
+
+  constructor(tursoClient: any, config: any = {}) {
+    this.db = tursoClient;
+    this.config = {
+      concurrency: config.concurrency || 3,
+      maxAttempts: config.maxAttempts || 5,
+      retryBaseSeconds: config.retryBaseSeconds || 30,
+      pollIntervalMs: config.pollIntervalMs || 5000,
+      debug: config.debug || false,
+      consoleOnly: config.consoleOnly || false,
+      ...config
+    };
+  }
+
+  log(level: string, message: string, data: any = null) {
+    if (level === 'DEBUG' && !this.config.debug) return;
+    logger.log(level, message, data);
+  }
+
+  get activeCount() {
+    return this.activeJobs;
+  }
+
+  registerHandler(type: string, handler: JobHandler) {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Persist a job; returns false if it could not be stored
+   * A job with an existing dedupeKey is not enqueued again
+   */
+  async enqueue(type: string, payload: any, options: { dedupeKey?: string; orderingKey?: string; orderValue?: number; delaySeconds?: number } = {}) {
+    if (this.config.consoleOnly) {
+      // No database: run inline so CONSOLE_ONLY mode still shows the full pipeline
+      this.log('INFO', `[CONSOLE-ONLY] Would enqueue ${type} job${options.dedupeKey ? ` (${options.dedupeKey})` : ''} - running inline`);
+      const handler = this.handlers.get(type);
+      if (handler) {
+        const run = () => handler(payload, { id: 0, type, payload, status: 'running', attempts: 1 } as Job)
+          .catch(error => this.log('ERROR', `Inline ${type} job failed: ${error.message}`));
+        if (options.delaySeconds) {
+          setTimeout(run, options.delaySeconds * 1000);
+        } else {
+          run();
+        }
+      }
+      return true;
+    }
+
+    try {
+      const result = await this.db.execute({
+        sql: `INSERT INTO jobs (type, payload, dedupe_key, ordering_key, order_value, status, attempts, max_attempts, run_at, created_at, updated_at)
+              VALUES (?, ?, ?, ?, ?, 'pending', 0, ?, unixepoch() + ?, unixepoch(), unixepoch())
+              ON CONFLICT(dedupe_key) DO NOTHING`,
+        args: [
+          type,
+          JSON.stringify(payload),
+          options.dedupeKey ?? null,
+          options.orderingKey ?? null,
+          options.orderValue ?? null,
+          this.config.maxAttempts,
+          options.delaySeconds ?? 0,
+        ]
+      });
+
+      if (result.rowsAffected > 0) {
+        this.log('DEBUG', `Enqueued ${type} job${options.dedupeKey ? ` (${options.dedupeKey})` : ''}`);
+        this.wake();
+      } else {
+        this.log('DEBUG', `Skipped duplicate ${type} job (${options.dedupeKey})`);
+      }
+      return true;
+    } catch (error: any) {
+      this.log('ERROR', `Failed to enqueue ${type} job: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Start the worker pool (jobs interrupted by a previous crash are re-queued first)
+   */
+  async start() {
+    if (this.running || this.config.consoleOnly) return;
+    this.running = true;
+
+    try {
+      const stale = await this.db.execute(
+        `UPDATE jobs SET status = 'pending', run_at = unixepoch(), updated_at = unixepoch() WHERE status = 'running'`
+      );
+      if (stale.rowsAffected > 0) {
+        this.log('WARN', `Re-queued ${stale.rowsAffected} jobs interrupted by a previous shutdown`);
+      }
+    } catch (error: any) {
+      this.log('ERROR', `Failed to re-queue interrupted jobs: ${error.message}`);
+    }
+
+    this.workers = Array.from({ length: this.config.concurrency }, (_, i) => this.workerLoop(i + 1));
+    this.log('INFO', `Started ${this.config.concurrency} workers`);
+  }
+
+  /**
+   * Stop claiming new jobs and wait for the running ones to finish
+   * Returns false if jobs were still running after timeoutMs - they are put back in the
+   * queue (with their attempt refunded) so the next start runs them again.
+   */
+  async stop(timeoutMs = Infinity) {
+    if (!this.running) return true;
+    this.running = false;
+    this.wakeAll();
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<false>(resolve => {
+      if (Number.isFinite(timeoutMs)) timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+    const drained = await Promise.race([Promise.all(this.workers).then(() => true as const), timeout]);
+    clearTimeout(timer);
+    this.workers = [];
+
+    if (!drained) {
+      await this.requeueRunning();
+      return false;
+    }
+
+    this.log('INFO', `Workers stopped`);
+    return true;
+  }
+
+  /**
+   * Resolve once no job is running or due (jobs waiting on a retry delay are not waited for)
+   */
+  async waitUntilIdle(pollIntervalMs = 100) {
+    while (true) {
+      const result = await this.db.execute(
+        `SELECT COUNT(*) as count FROM jobs WHERE status = 'running' OR (status = 'pending' AND run_at <= unixepoch())`
+      );
+      if (Number(result.rows[0].count) === 0 && this.activeJobs === 0) return;
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+    }
+  }
+
+  /**
+   * Put the jobs this process is still running back to 'pending' (shutdown deadline passed)
+   */
+  private async requeueRunning() {
+    const ids = [...this.runningJobIds];
+    if (ids.length === 0) return;
+
+    try {
+      await this.db.execute({
+        sql: `UPDATE jobs SET status = 'pending', attempts = MAX(attempts - 1, 0), run_at = unixepoch(), updated_at = unixepoch()
+              WHERE id IN (${ids.map(() => '?').join(',')}) AND status = 'running'`,
+        args: ids
+      });
+      this.log('WARN', `Shutdown deadline passed - ${ids.length} unfinished jobs put back in the queue`, { jobIds: ids });
+    } catch (error: any) {
+      // Left 'running', they are re-queued on the next start
+      this.log('ERROR', `Failed to re-queue unfinished jobs: ${error.message}`);
+    }
+  }
+
+  // ==========================================================================
+  // ADMIN (jobs CLI)
+  // ==========================================================================
+
+  async listJobs(status: JobStatus | null = null, limit = 50): Promise<Job[]> {
+    const result = await this.db.execute({
+      sql: `SELECT * FROM jobs ${status ? 'WHERE status = ?' : ''} ORDER BY id DESC LIMIT ?`,
+      args: status ? [status, limit] : [limit]
+    });
+    return result.rows.map((row: any) => this.toJob(row));
+  }
+
+  async getJob(id: number): Promise<Job | null> {
+    const result = await this.db.execute({ sql: `SELECT * FROM jobs WHERE id = ?`, args: [id] });
+    return result.rows[0] ? this.toJob(result.rows[0]) : null;
+  }
+
+  async getStats() {
+    const result = await this.db.execute(`SELECT status, COUNT(*) as count FROM jobs GROUP BY status`);
+    return Object.fromEntries(result.rows.map((row: any) => [row.status, Number(row.count)]));
+  }
+
+  /**
+   * Put dead (or any non-running) jobs back in the queue with a fresh attempt budget
+   */
+  async replay(ids: number[]) {
+    if (ids.length === 0) return 0;
+    const result = await this.db.execute({
+      sql: `UPDATE jobs SET status = 'pending', attempts = 0, run_at = unixepoch(), last_error = NULL, updated_at = unixepoch()
+            WHERE id IN (${ids.map(() => '?').join(',')}) AND status != 'running'`,
+      args: ids
+    });
+    return result.rowsAffected;
+  }
+
+  async replayDead() {
+    const result = await this.db.execute(
+      `UPDATE jobs SET status = 'pending', attempts = 0, run_at = unixepoch(), last_error = NULL, updated_at = unixepoch()
+       WHERE status = 'dead'`
+    );
+    return result.rowsAffected;
+  }
+
+  /**
+   * Delete completed jobs older than the given number of days
+   */
+  async purgeCompleted(days: number) {
+    const result = await this.db.execute({
+      sql: `DELETE FROM jobs WHERE status = 'completed' AND completed_at < unixepoch() - ?`,
+      args: [days * 86400]
+    });
+    return result.rowsAffected;
+  }
+
+  // ==========================================================================
+  // WORKERS
+  // ==========================================================================
+
+  private async workerLoop(workerId: number) {
+    while (this.running) {
+      let job: Job | null = null;
+      try {
+        job = await this.claimNext();
+      } catch (error: any) {
+        this.log('ERROR', `Worker ${workerId} failed to claim a job: ${error.message}`);
+      }
+
+      if (!job) {
+        await this.waitForWork();
+        continue;
+      }
+
+      await this.execute(job, workerId);
+    }
+  }
+
+  private async claimNext(): Promise<Job | null> {
+    // The status guard makes the claim atomic when several workers race for the same row.
+    // Keyed jobs are only eligible as the head of their key with nothing of the key running.
+    const result = await this.db.execute(
+      `UPDATE jobs SET status = 'running', attempts = attempts + 1, updated_at = unixepoch()
+       WHERE id = (
+         SELECT j.id FROM jobs j
+         WHERE j.status = 'pending' AND j.run_at <= unixepoch()
+           AND (j.ordering_key IS NULL OR (
+             NOT EXISTS (
+               SELECT 1 FROM jobs r WHERE r.ordering_key = j.ordering_key AND r.status = 'running'
+             )
+             AND NOT EXISTS (
+               SELECT 1 FROM jobs e WHERE e.ordering_key = j.ordering_key AND e.status = 'pending'
+                 AND (e.order_value < j.order_value OR (e.order_value = j.order_value AND e.id < j.id))
+             )
+           ))
+         ORDER BY j.run_at ASC, j.id ASC LIMIT 1
+       ) AND status = 'pending'
+       RETURNING *`
+    );
+    return result.rows[0] ? this.toJob(result.rows[0]) : null;
+  }
+
+  private async execute(job: Job, workerId: number) {
+    const handler = this.handlers.get(job.type);
+    this.activeJobs++;
+    this.runningJobIds.add(job.id);
+
+    // Everything logged while the job runs (including by its handler) carries the job id
+    await withLogContext({ jobId: job.id, jobType: job.type }, async () => {
+      try {
+        if (!handler) throw new Error(`No handler registered for job type ${job.type}`);
+
+        this.log('DEBUG', `Worker ${workerId} running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+        await handler(job.payload, job);
+
+        await this.db.execute({
+          sql: `UPDATE jobs SET status = 'completed', completed_at = unixepoch(), updated_at = unixepoch() WHERE id = ?`,
+          args: [job.id]
+        });
+      } catch (error: any) {
+        await this.fail(job, error);
+      } finally {
+        this.activeJobs--;
+        this.runningJobIds.delete(job.id);
+      }
+    });
+  }
+
+  private async fail(job: Job, error: any) {
+    const message = String(error?.message || error).substring(0, 1000);
+
+    try {
+      if (job.attempts >= job.max_attempts) {
+        await this.db.execute({
+          sql: `UPDATE jobs SET status = 'dead', last_error = ?, updated_at = unixepoch() WHERE id = ?`,
+          args: [message, job.id]
+        });
+        this.log('ERROR', `${job.type} job ${job.id} moved to dead-letter after ${job.attempts} attempts: ${message}`);
+        return;
+      }
+
+      const delay = Math.min(this.config.retryBaseSeconds * 2 ** (job.attempts - 1), MAX_RETRY_DELAY_SECONDS);
+      await this.db.execute({
+        sql: `UPDATE jobs SET status = 'pending', run_at = unixepoch() + ?, last_error = ?, updated_at = unixepoch() WHERE id = ?`,
+        args: [delay, message, job.id]
+      });
+      this.log('WARN', `${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}), retrying in ${delay}s: ${message}`);
+    } catch (dbError: any) {
+      this.log('ERROR', `Failed to record failure of job ${job.id}: ${dbError.message}`);
+    }
+  }
+
+  private waitForWork() {
+    return new Promise<void>(resolve => {
+      const timer = setTimeout(done, this.config.pollIntervalMs);
+      const wakeups = this.wakeups;
+      function done() {
+        clearTimeout(timer);
+        const index = wakeups.indexOf(done);
+        if (index !== -1) wakeups.splice(index, 1);
+        resolve();
+      }
+      this.wakeups.push(done);
+    });
+  }
+
+  private wake() {
+    this.wakeups.shift()?.();
+  }
+
+  private wakeAll() {
+    for (const wakeup of [...this.wakeups]) wakeup();
+  }
+
+  private toJob(row: any): Job {
+    return {
+      id: Number(row.id),
+      type: row.type,
+      payload: row.payload ? JSON.parse(row.payload) : null,
+      dedupe_key: row.dedupe_key ?? null,
+      ordering_key: row.ordering_key ?? null,
+      order_value: row.order_value != null ? Number(row.order_value) : null,
+      status: row.status,
+      attempts: Number(row.attempts),
+      max_attempts: Number(row.max_attempts),
+      run_at: Number(row.run_at),
+      last_error: row.last_error ?? null,
+      created_at: Number(row.created_at),
+      updated_at: Number(row.updated_at),
+      completed_at: row.completed_at != null ? Number(row.completed_at) : null,
+    };
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Keyed Serializer
+ * Runs async tasks one at a time per key (e.g. per client channel) while
+ * different keys run in parallel. Tasks for a key start in the order run() was called.
+ *
+ * Used so a channel's enrichment, edit and delete handling never interleave their
+ * daily_analytics_summary increments and risk_radar / summary recomputes.
+ */
+
+export class KeyedSerializer {
+  // Settled promise of the last task queued per key
+  private tails = new Map<string, Promise<void>>();
+
+  get activeKeys() {
+    return this.tails.size;
+  }
+
+  /**
+   * Wait for every queued task to finish; resolves false if some are still running after timeoutMs
+   */
+  async drain(timeoutMs = Infinity) {
+    const deadline = Date.now() + timeoutMs;
+
+    while (this.tails.size > 0) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return false;
+
+      let timer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        Promise.all(this.tails.values()),
+        new Promise<void>(resolve => {
+          if (Number.isFinite(remaining)) timer = setTimeout(resolve, remaining);
+        }),
+      ]);
+      clearTimeout(timer);
+    }
+    return true;
+  }
+
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    const result = previous.then(task);
+
+    // A failed task must not block the tasks queued behind it
+    const tail = result.then(() => undefined, () => undefined);
+    this.tails.set(key, tail);
+    tail.then(() => {
+      if (this.tails.get(key) === tail) this.tails.delete(key);
+    });
+
+    return result;
+  }
+}
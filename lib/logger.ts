@@ -0,0 +1,164 @@
+/**
+ * Structured Logger
+ * Shared NDJSON logger for the listener and lib modules
+ *
+ * Every entry is one JSON object per line:
+ *   {"time":"...","level":"info","component":"listener","msg":"...","correlationId":"...",...data}
+ *
+ * - Levels: debug < info < warn < error (LOG_LEVEL, default: info, or debug when DEBUG=true)
+ * - Context fields set with withLogContext() (e.g. the Discord message id as correlationId)
+ *   are added to every entry logged inside the callback, across awaits and lib calls
+ * - LOG_REDACT_CONTENT replaces message text fields (content, summary, ...) with their length
+ *   (default: true when NODE_ENV=production)
+ * - Errors are serialized with name, message and stack; circular references are dropped
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogContext = Record<string, string | number | boolean | null | undefined>;
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Fields holding Discord message text or text derived from it
+const CONTENT_FIELDS = new Set([
+  'content',
+  'before',
+  'after',
+  'previous_content',
+  'new_content',
+  'ai_summary',
+  'message_content',
+  'summary',
+  'canonical_question',
+  'sample_questions',
+  'original_query',
+]);
+
+function parseLevel(value: string | undefined): LogLevel {
+  const level = value?.toLowerCase() as LogLevel;
+  if (level && LEVELS[level]) return level;
+  return process.env.DEBUG === 'true' ? 'debug' : 'info';
+}
+
+const loggerConfig = {
+  level: parseLevel(process.env.LOG_LEVEL),
+  redactContent: process.env.LOG_REDACT_CONTENT
+    ? process.env.LOG_REDACT_CONTENT === 'true'
+    : process.env.NODE_ENV === 'production',
+};
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+// ============================================================================
+// CONTEXT
+// ============================================================================
+
+/**
+ * Run fn with extra fields (merged over the current context) on every log entry
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+}
+
+export function getLogContext(): LogContext {
+  return contextStorage.getStore() || {};
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+function redactText(value: unknown) {
+  if (typeof value === 'string') return `[redacted ${value.length} chars]`;
+  if (Array.isArray(value)) return `[redacted ${value.length} items]`;
+  return value === null || value === undefined ? value : '[redacted]';
+}
+
+function toLoggable(value: unknown, seen: WeakSet<object>, redact: boolean): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Map) return toLoggable(Object.fromEntries(value), seen, redact);
+  if (value instanceof Set) return toLoggable([...value], seen, redact);
+  if (!value || typeof value !== 'object') return value;
+
+  if (seen.has(value)) return '[circular]';
+  seen.add(value);
+
+  if (Array.isArray(value)) return value.map(item => toLoggable(item, seen, redact));
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = redact && CONTENT_FIELDS.has(key) ? redactText(item) : toLoggable(item, seen, redact);
+  }
+  return result;
+}
+
+// ============================================================================
+// LOGGER
+// ============================================================================
+
+export class Logger {
+  constructor(readonly component: string) {}
+
+  debug(message: string, data: any = null) {
+    this.write('debug', message, data);
+  }
+
+  info(message: string, data: any = null) {
+    this.write('info', message, data);
+  }
+
+  warn(message: string, data: any = null) {
+    this.write('warn', message, data);
+  }
+
+  error(message: string, data: any = null) {
+    this.write('error', message, data);
+  }
+
+  /**
+   * Level given as 'INFO' / 'DEBUG' / ... (the signature of the modules' log() helpers)
+   */
+  log(level: string, message: string, data: any = null) {
+    const normalized = level.toLowerCase() as LogLevel;
+    this.write(LEVELS[normalized] ? normalized : 'info', message, data);
+  }
+
+  private write(level: LogLevel, message: string, data: any) {
+    if (LEVELS[level] < LEVELS[loggerConfig.level]) return;
+
+    // Non-object data (a count, a list) is kept under a single field
+    const fields = data === null || data === undefined
+      ? {}
+      : typeof data === 'object' && !Array.isArray(data) && !(data instanceof Error)
+        ? data
+        : { data };
+
+    const entry = toLoggable({
+      time: new Date().toISOString(),
+      level,
+      component: this.component,
+      msg: message,
+      ...getLogContext(),
+      ...fields,
+    }, new WeakSet(), loggerConfig.redactContent);
+
+    process.stdout.write(JSON.stringify(entry) + '\n');
+  }
+}
+
+export function createLogger(component: string) {
+  return new Logger(component);
+}
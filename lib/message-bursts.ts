@@ -0,0 +1,86 @@
+/**
+ * Message Bursts
+ * Merges consecutive client messages into one triage unit
+ *
+ * Clients often split one thought over several quick messages. A burst is a run of messages
+ * by the same author in the same channel (or thread), each sent less than the debounce window
+ * after the previous one, with nobody else posting in between.
+ *
+ * Every client message's job is delayed until its window has passed. When the job runs:
+ * - If the author posted again within the window, the message is not the end of its burst
+ *   and the job does nothing - the burst's last message processes it.
+ * - Otherwise the preceding messages of the burst are collected and the pipeline runs once
+ *   on the merged text, under the burst's first message (question link, timestamps, ledger entry).
+ *
+ * Fragments shorter than MIN_MESSAGE_LENGTH are queued too; the length filter applies to the
+ * merged text. Every message of a burst is linked to its first message in processed_messages.burst_id.
+ */
+
+import type { Message } from 'discord.js';
+
+// Longest burst that is merged (Discord returns at most 100 messages per history request)
+const BURST_HISTORY_LIMIT = 50;
+
+/**
+ * Whether a message can be part of a burst (client messages, with aggregation enabled)
+ */
+export function isBurstCandidate(message: Message<true>, fromTeam: boolean, windowSeconds: number) {
+  return windowSeconds > 0 && !fromTeam && !message.author.bot;
+}
+
+/**
+ * Seconds until the message's debounce window has passed (0 for older messages, e.g. backfill)
+ */
+export function burstDelaySeconds(message: Message<true>, windowSeconds: number) {
+  const windowEnd = message.createdTimestamp + windowSeconds * 1000;
+  return Math.max(0, Math.ceil((windowEnd - Date.now()) / 1000));
+}
+
+function continues(previous: Message<true>, next: Message<true>, windowSeconds: number) {
+  return next.author.id === previous.author.id
+    && next.createdTimestamp - previous.createdTimestamp < windowSeconds * 1000;
+}
+
+/**
+ * Whether the author posted again within the window, so a later message ends the burst
+ */
+export async function hasBurstContinuation(message: Message<true>, windowSeconds: number) {
+  const after = await message.channel.messages.fetch({ after: message.id, limit: 1 });
+  const next = [...after.values()].sort((a, b) => a.createdTimestamp - b.createdTimestamp)[0];
+  return Boolean(next && continues(message, next, windowSeconds));
+}
+
+/**
+ * The burst ending with this message, oldest first
+ * Messages that were already processed (alone or in an earlier burst) end the burst.
+ */
+export async function collectBurst(
+  message: Message<true>,
+  windowSeconds: number,
+  findCompleted: (messageIds: string[]) => Promise<Set<string>>
+): Promise<Message<true>[]> {
+  const history = await message.channel.messages.fetch({ before: message.id, limit: BURST_HISTORY_LIMIT });
+  const newestFirst = [...history.values()].sort((a, b) => b.createdTimestamp - a.createdTimestamp);
+
+  const burst = [message];
+  for (const previous of newestFirst) {
+    if (!continues(previous, burst[0], windowSeconds)) break;
+    burst.unshift(previous);
+  }
+
+  const completed = await findCompleted(burst.slice(0, -1).map(m => m.id));
+  let start = burst.length - 1;
+  while (start > 0 && !completed.has(burst[start - 1].id)) start--;
+  return burst.slice(start);
+}
+
+/**
+ * One message standing for the whole burst: the first message with the burst's text
+ * Everything else (id, link, author, timestamps, channel) is the first message's.
+ */
+export function mergeBurst(burst: Message<true>[]): Message<true> {
+  if (burst.length === 1) return burst[0];
+
+  const content = burst.map(m => m.content.trim()).filter(Boolean).join('\n');
+  return Object.assign(Object.create(burst[0]), { content });
+}
@@ -0,0 +1,61 @@
+/**
+ * Message Jobs
+ * The process_message job shared by everything that feeds the message pipeline,
+ * and the process_edit job that re-triages edited client messages
+ *
+ * The live listener (new messages, gap recovery) and the historical fetcher queue
+ * messages here; the listener's job workers run the pipeline for each of them.
+ * A client channel's messages are processed one at a time in the order they were sent,
+ * and a message is only ever queued once (dedupe key = Discord message id).
+ * Client messages wait for their burst window before they run (lib/message-bursts.ts).
+ *
+ * Edits join the same per-channel order at the time they were made; each edit of a message
+ * is queued once (dedupe key = message id + edit time).
+ */
+
+import type { Message } from 'discord.js';
+import type { JobQueue } from './job-queue';
+
+export const PROCESS_MESSAGE_JOB = 'process_message';
+export const PROCESS_EDIT_JOB = 'process_edit';
+
+export interface ProcessMessagePayload {
+  discordChannelId: string;
+  messageId: string;
+  backfilled: boolean;
+}
+
+export interface ProcessEditPayload {
+  discordChannelId: string;
+  messageId: string;
+  editedTimestamp: number;
+  previousContent: string | null; // From the Discord cache when the edit arrived
+}
+
+/**
+ * Queue a message for the pipeline; resolves false when it could not be stored
+ * A delayed message also holds back the messages queued after it in its client channel.
+ */
+export function enqueueMessageJob(jobQueue: JobQueue, message: Message<true>, clientChannelId: string, backfilled: boolean, delaySeconds = 0) {
+  const payload: ProcessMessagePayload = { discordChannelId: message.channelId, messageId: message.id, backfilled };
+  return jobQueue.enqueue(PROCESS_MESSAGE_JOB, payload, {
+    dedupeKey: message.id,
+    // One job at a time per client channel, in message order
+    orderingKey: clientChannelId,
+    orderValue: message.createdTimestamp,
+    delaySeconds,
+  });
+}
+
+/**
+ * Queue an edited message for re-triage; resolves false when it could not be stored
+ */
+export function enqueueEditJob(jobQueue: JobQueue, message: Message<true>, clientChannelId: string, previousContent: string | null) {
+  const editedTimestamp = message.editedTimestamp ?? Date.now();
+  const payload: ProcessEditPayload = { discordChannelId: message.channelId, messageId: message.id, editedTimestamp, previousContent };
+  return jobQueue.enqueue(PROCESS_EDIT_JOB, payload, {
+    dedupeKey: `${message.id}:edit:${editedTimestamp}`,
+    orderingKey: clientChannelId,
+    orderValue: editedTimestamp,
+  });
+}
@@ -0,0 +1,256 @@
+/**
+ * Processed Message Ledger
+ * Durable de-duplication for the live listener, keyed by Discord message id
+ *
+ * Each message records which pipeline stages finished:
+ * - triage:    AI triage, question insert, repeated request tracking (client messages)
+ * - sentiment: Sentiment analysis (client messages)
+ * - quality:   Response quality, reply matching and resolution (team messages)
+ * - looms:     Loom link tracking (team messages)
+ * - urls:      Outbound link tracking (team messages)
+ *
+ * A message seen again after a crash only runs the stages that are missing.
+ * Daily metric increments are committed in the same batch as the stage that
+ * produced them, so a resumed message is never counted twice.
+ *
+ * Messages merged into a burst (lib/message-bursts.ts) are processed under the burst's
+ * first message; the other messages get their own entries with burst_id pointing to it
+ * and follow its stages, question and status.
+ */
+
+import { createLogger } from './logger';
+
+export type PipelineStage = 'triage' | 'sentiment' | 'urls' | 'looms' | 'quality';
+
+export interface LedgerEntry {
+  messageId: string;
+  status: 'processing' | 'completed';
+  completedStages: Set<PipelineStage>;
+  questionId: number | null;
+  attempts: number;
+}
+
+export interface StageMetrics {
+  channelId: string;
+  date: string; // YYYY-MM-DD
+  counts: Record<string, number>; // daily_analytics_summary column -> increment
+}
+
+const logger = createLogger('ledger');
+
+export class MessageLedger {
+  private db: any;
+  private config: any;
+  // CONSOLE_ONLY mode has no database, so the ledger lives in memory for the session
+  private memoryEntries = new Map<string, LedgerEntry>();
+
+  constructor(tursoClient: any, config: any = {}) {
+    this.db = tursoClient;
+    this.config = {
+      debug: config.debug || false,
+      consoleOnly: config.consoleOnly || false,
+      ...config
+    };
+  }
+
+  log(level: string, message: string, data: any = null) {
+    if (level === 'DEBUG' && !this.config.debug) return;
+    logger.log(level, message, data);
+  }
+
+  /**
+   * Record that processing of a message started and return its ledger entry
+   * Entries that already exist get their attempt counter bumped
+   * burstMessages are the burst's other messages, linked to this one
+   * teamMember tells team and client messages apart (daily client message counts are read from the ledger)
+   */
+  async begin(message: any, channelId: string, burstMessages: any[] = [], teamMember = false): Promise<LedgerEntry> {
+    if (this.config.consoleOnly) {
+      const existing = this.memoryEntries.get(message.id);
+      if (existing) {
+        existing.attempts++;
+        return existing;
+      }
+      const entry = this.newEntry(message.id);
+      // The burst's messages share the entry, so they are completed with it
+      for (const m of [message, ...burstMessages]) this.memoryEntries.set(m.id, entry);
+      return entry;
+    }
+
+    try {
+      const burstId = burstMessages.length > 0 ? message.id : null;
+      const results = await this.db.batch([
+        {
+          sql: `INSERT INTO processed_messages (
+            message_id, channel_id, discord_channel_id, author_id, message_timestamp, is_team_member,
+            completed_stages, status, attempts, burst_id, first_seen_at, updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, '[]', 'processing', 1, ?, unixepoch(), unixepoch())
+          ON CONFLICT(message_id) DO UPDATE SET
+            attempts = attempts + 1,
+            burst_id = COALESCE(excluded.burst_id, burst_id),
+            updated_at = unixepoch()
+          RETURNING status, completed_stages, question_id, attempts`,
+          args: [
+            message.id,
+            channelId,
+            message.channelId,
+            message.author?.id || null,
+            Math.floor(message.createdTimestamp / 1000),
+            teamMember ? 1 : 0,
+            burstId,
+          ]
+        },
+        ...burstMessages.map(burstMessage => ({
+          sql: `INSERT INTO processed_messages (
+            message_id, channel_id, discord_channel_id, author_id, message_timestamp, is_team_member,
+            completed_stages, status, attempts, burst_id, first_seen_at, updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, '[]', 'processing', 1, ?, unixepoch(), unixepoch())
+          ON CONFLICT(message_id) DO UPDATE SET
+            burst_id = excluded.burst_id,
+            updated_at = unixepoch()`,
+          args: [
+            burstMessage.id,
+            channelId,
+            burstMessage.channelId,
+            burstMessage.author?.id || null,
+            Math.floor(burstMessage.createdTimestamp / 1000),
+            teamMember ? 1 : 0,
+            burstId,
+          ]
+        })),
+      ], 'write');
+
+      const row = results[0].rows[0];
+      return {
+        messageId: message.id,
+        status: row.status === 'completed' ? 'completed' : 'processing',
+        completedStages: new Set(JSON.parse(row.completed_stages || '[]')),
+        questionId: row.question_id != null ? Number(row.question_id) : null,
+        attempts: Number(row.attempts),
+      };
+    } catch (error: any) {
+      // Without the ledger the message is still processed rather than dropped
+      this.log('ERROR', `Failed to record message ${message.id} in ledger: ${error.message}`);
+      return this.newEntry(message.id);
+    }
+  }
+
+  /**
+   * Mark a stage as finished, optionally committing daily metric increments atomically with it
+   */
+  async completeStage(entry: LedgerEntry, stage: PipelineStage, options: { questionId?: number | null; metrics?: StageMetrics } = {}) {
+    entry.completedStages.add(stage);
+    if (options.questionId) entry.questionId = options.questionId;
+
+    if (this.config.consoleOnly) {
+      if (options.metrics) {
+        this.log('INFO', `[CONSOLE-ONLY] Would increment daily metrics ${JSON.stringify(options.metrics.counts)} for ${options.metrics.channelId}`);
+      }
+      this.log('DEBUG', `[CONSOLE-ONLY] Stage ${stage} completed for ${entry.messageId}`);
+      return;
+    }
+
+    const statements: any[] = [];
+
+    if (options.metrics) {
+      const { channelId, date, counts } = options.metrics;
+      statements.push({
+        sql: `INSERT INTO daily_analytics_summary (channel_id, date, created_at, updated_at)
+              VALUES (?, ?, unixepoch(), unixepoch())
+              ON CONFLICT(channel_id, date) DO NOTHING`,
+        args: [channelId, date]
+      });
+      for (const [metricName, value] of Object.entries(counts)) {
+        statements.push({
+          sql: `UPDATE daily_analytics_summary SET
+                  ${metricName} = ${metricName} + ?,
+                  updated_at = unixepoch()
+                WHERE channel_id = ? AND date = ?`,
+          args: [value, channelId, date]
+        });
+      }
+    }
+
+    statements.push({
+      sql: `UPDATE processed_messages SET
+              completed_stages = ?,
+              question_id = COALESCE(?, question_id),
+              updated_at = unixepoch()
+            WHERE message_id = ? OR burst_id = ?`,
+      args: [JSON.stringify([...entry.completedStages]), options.questionId ?? null, entry.messageId, entry.messageId]
+    });
+
+    try {
+      await this.db.batch(statements, 'write');
+      this.log('DEBUG', `Stage ${stage} completed for ${entry.messageId}`);
+    } catch (error: any) {
+      this.log('ERROR', `Failed to complete stage ${stage} for ${entry.messageId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Mark a message as fully processed
+   */
+  async complete(entry: LedgerEntry) {
+    entry.status = 'completed';
+    if (this.config.consoleOnly) return;
+
+    try {
+      await this.db.execute({
+        sql: `UPDATE processed_messages SET status = 'completed', completed_at = unixepoch(), updated_at = unixepoch()
+              WHERE message_id = ? OR burst_id = ?`,
+        args: [entry.messageId, entry.messageId]
+      });
+    } catch (error: any) {
+      this.log('ERROR', `Failed to complete ledger entry ${entry.messageId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Which of these messages are already fully processed (the historical fetcher skips them)
+   */
+  async findCompleted(messageIds: string[]): Promise<Set<string>> {
+    if (this.config.consoleOnly || messageIds.length === 0) {
+      return new Set(messageIds.filter(id => this.memoryEntries.get(id)?.status === 'completed'));
+    }
+
+    try {
+      const result = await this.db.execute({
+        sql: `SELECT message_id FROM processed_messages
+              WHERE status = 'completed' AND message_id IN (${messageIds.map(() => '?').join(',')})`,
+        args: messageIds
+      });
+      return new Set(result.rows.map((row: any) => String(row.message_id)));
+    } catch (error: any) {
+      this.log('ERROR', `Failed to look up processed messages: ${error.message}`);
+      return new Set();
+    }
+  }
+
+  /**
+   * Question each of these messages raised (or, for team replies, was matched to),
+   * including messages merged into a question's burst
+   */
+  async findQuestionIds(messageIds: string[]): Promise<Map<string, number>> {
+    if (this.config.consoleOnly || messageIds.length === 0) {
+      const entries = messageIds.map(id => [id, this.memoryEntries.get(id)?.questionId] as const);
+      return new Map(entries.filter((e): e is readonly [string, number] => e[1] != null));
+    }
+
+    try {
+      const result = await this.db.execute({
+        sql: `SELECT message_id, question_id FROM processed_messages
+              WHERE question_id IS NOT NULL AND message_id IN (${messageIds.map(() => '?').join(',')})`,
+        args: messageIds
+      });
+      return new Map(result.rows.map((row: any) => [String(row.message_id), Number(row.question_id)]));
+    } catch (error: any) {
+      this.log('ERROR', `Failed to look up questions of messages: ${error.message}`);
+      return new Map();
+    }
+  }
+
+  private newEntry(messageId: string): LedgerEntry {
+    return { messageId, status: 'processing', completedStages: new Set(), questionId: null, attempts: 1 };
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Prometheus Metrics
+ * Minimal counter / gauge / histogram registry rendered in the Prometheus text format
+ *
+ * The listener's metrics are defined here so lib modules can record them directly
+ * (e.g. AI calls in analytics.ts). Gauges can compute their value at scrape time
+ * with a collect callback. Exposed by the health server at /metrics.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  collect?(): Promise<void>;
+  render(): string[];
+  snapshot?(): Array<Record<string, any>>;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Seconds - AI calls dominate the upper buckets
+const DEFAULT_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+// ============================================================================
+// METRIC TYPES
+// ============================================================================
+
+function labelKey(labels: Labels) {
+  return JSON.stringify(Object.keys(labels).sort().map(key => [key, labels[key]]));
+}
+
+function formatLabels(labels: Labels) {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  const escaped = entries.map(([key, value]) => `${key}="${String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`);
+  return `{${escaped.join(',')}}`;
+}
+
+export class Counter implements Metric {
+  readonly type = 'counter' as const;
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  render() {
+    return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+
+  snapshot() {
+    return [...this.values.values()].map(({ labels, value }) => ({ ...labels, value }));
+  }
+}
+
+export class Gauge implements Metric {
+  readonly type = 'gauge' as const;
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string, private collector?: (gauge: Gauge) => Promise<void> | void) {}
+
+  async collect() {
+    if (this.collector) await this.collector(this);
+  }
+
+  set(labels: Labels, value: number) {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  reset() {
+    this.values.clear();
+  }
+
+  render() {
+    return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+export class Histogram implements Metric {
+  readonly type = 'histogram' as const;
+  private values = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private buckets: number[] = DEFAULT_BUCKETS) {}
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) || { labels, buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.buckets[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  /**
+   * Start timing; the returned function records the elapsed seconds
+   */
+  startTimer(labels: Labels) {
+    const start = process.hrtime.bigint();
+    return () => this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+  }
+
+  /**
+   * Time an async operation (recorded whether it succeeds or throws)
+   */
+  async time<T>(labels: Labels, fn: () => Promise<T>): Promise<T> {
+    const endTimer = this.startTimer(labels);
+    try {
+      return await fn();
+    } finally {
+      endTimer();
+    }
+  }
+
+  render() {
+    const lines: string[] = [];
+    for (const { labels, buckets, sum, count } of this.values.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+
+  snapshot() {
+    return [...this.values.values()].map(({ labels, sum, count }) => ({ ...labels, count, sum }));
+  }
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  readonly contentType = 'text/plain; version=0.0.4; charset=utf-8';
+
+  counter(name: string, help: string) {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, collect?: (gauge: Gauge) => Promise<void> | void) {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]) {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Render every metric in the Prometheus text exposition format
+   * A failing collect callback leaves that gauge's previous values in place
+   */
+  async render() {
+    const lines: string[] = [];
+    for (const metric of this.metrics) {
+      if (metric.collect) {
+        try {
+          await metric.collect();
+        } catch {
+          // Keep the last collected values
+        }
+      }
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Counter totals and histogram counts / sums as plain objects (gauges are read at scrape time)
+   * Logged on shutdown so the increments since the last scrape are not lost
+   */
+  snapshot() {
+    return Object.fromEntries(
+      this.metrics
+        .map(metric => [metric.name, metric.snapshot?.() ?? []] as const)
+        .filter(([, values]) => values.length > 0)
+    );
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.some(m => m.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+// ============================================================================
+// LISTENER METRICS
+// ============================================================================
+
+export const registry = new MetricsRegistry();
+
+export const messagesReceived = registry.counter(
+  'caio_messages_received_total',
+  'Messages seen in client channels (source: live|backfill)'
+);
+
+export const messagesFiltered = registry.counter(
+  'caio_messages_filtered_total',
+  'Messages dropped before processing (reason: bot|too_short|duplicate|enqueue_failed)'
+);
+
+export const messagesProcessed = registry.counter(
+  'caio_messages_processed_total',
+  'Messages that went through the pipeline (author: team|client, result: success|error)'
+);
+
+export const stageDuration = registry.histogram(
+  'caio_pipeline_stage_duration_seconds',
+  'Pipeline stage latency (stage: triage|sentiment|quality|looms|urls|risk_radar|daily_summary)'
+);
+
+export const aiCalls = registry.counter(
+  'caio_ai_calls_total',
+  'OpenRouter calls by prompt'
+);
+
+export const aiFailures = registry.counter(
+  'caio_ai_call_failures_total',
+  'Failed OpenRouter calls by prompt (reason: unavailable|error)'
+);
+
+export const aiDuration = registry.histogram(
+  'caio_ai_call_duration_seconds',
+  'OpenRouter call latency by prompt'
+);
+
+export const dbErrors = registry.counter(
+  'caio_db_errors_total',
+  'Failed database calls (operation: execute|batch|transaction)'
+);
+
+export const slaEvents = registry.counter(
+  'caio_sla_events_total',
+  'SLA events recorded (metric: first_response|resolution, event: warning|breached|met)'
+);
+
+export const escalationsSent = registry.counter(
+  'caio_escalations_total',
+  'Escalations of unanswered urgent questions (tier: channel|owner|lead, result: delivered|undelivered)'
+);
+
+/**
+ * Count and time an AI call; failures are classified with isUnavailable (outage vs. other error)
+ */
+export async function trackAICall<T>(prompt: string, fn: () => Promise<T>, isUnavailable: (error: any) => boolean = () => false): Promise<T> {
+  aiCalls.inc({ prompt });
+  try {
+    return await aiDuration.time({ prompt }, fn);
+  } catch (error) {
+    aiFailures.inc({ prompt, reason: isUnavailable(error) ? 'unavailable' : 'error' });
+    throw error;
+  }
+}
+
+/**
+ * Count failed calls on a libSQL client (Drizzle shares the same client, so its queries are included)
+ */
+export function instrumentDbClient(client: any) {
+  for (const operation of ['execute', 'batch', 'transaction']) {
+    const original = client[operation];
+    if (typeof original !== 'function') continue;
+
+    client[operation] = async (...args: any[]) => {
+      try {
+        return await original.apply(client, args);
+      } catch (error) {
+        dbErrors.inc({ operation });
+        throw error;
+      }
+    };
+  }
+  return client;
+}
@@ -0,0 +1,166 @@
+/**
+ * Question Lifecycle
+ * Status state machine for questions on the board, with a history of every change
+ *
+ * States:
+ * - open:              Raised by the client, nobody on the team has picked it up
+ * - acknowledged:      The team has seen it (reaction, acknowledgement reply)
+ * - in_progress:       The team is working on it (scheduling reply, client answered a follow-up)
+ * - waiting_on_client: The team asked the client something and is waiting for the answer
+ * - resolved:          Answered
+ * - reopened:          Was resolved, but is not done after all
+ * - closed:            Done for good (no longer reopened by replies)
+ *
+ * Transitions outside TRANSITIONS are refused. Every change is written to question_status_history
+ * with its actor and the seconds spent in the previous state. Time in waiting_on_client is summed
+ * in questions.waiting_on_client_seconds and left out of SLA clocks: resolution_time_seconds
+ * is the time to resolution minus the time spent waiting on the client.
+ *
+ * Rows still carrying the legacy 'pending' status count as open.
+ */
+
+import { createLogger } from './logger';
+
+export const QUESTION_STATUSES = ['open', 'acknowledged', 'in_progress', 'waiting_on_client', 'resolved', 'reopened', 'closed'] as const;
+export type QuestionStatus = typeof QUESTION_STATUSES[number];
+
+// Statuses that still need something from the team (the question board)
+export const UNRESOLVED_STATUSES: QuestionStatus[] = ['open', 'acknowledged', 'in_progress', 'waiting_on_client', 'reopened'];
+
+const TRANSITIONS: Record<QuestionStatus, QuestionStatus[]> = {
+  open: ['acknowledged', 'in_progress', 'waiting_on_client', 'resolved', 'closed'],
+  acknowledged: ['in_progress', 'waiting_on_client', 'resolved', 'closed'],
+  in_progress: ['waiting_on_client', 'resolved', 'closed'],
+  waiting_on_client: ['in_progress', 'resolved', 'closed'],
+  resolved: ['reopened', 'closed'],
+  reopened: ['acknowledged', 'in_progress', 'waiting_on_client', 'resolved', 'closed'],
+  closed: ['reopened'],
+};
+
+export interface StatusActor {
+  id: string | null;
+  name: string | null;
+}
+
+export interface TransitionOptions {
+  at?: number | null;              // Unix seconds (defaults to now; message timestamps for message-driven changes)
+  source?: string;                 // What caused it: reply|reaction|command|client_reply|...
+  matchMethod?: string | null;     // How the resolving reply was matched (resolved only)
+}
+
+const logger = createLogger('lifecycle');
+
+/**
+ * Status of a questions row as a lifecycle state
+ */
+export function normalizeStatus(status: string | null | undefined): QuestionStatus {
+  return QUESTION_STATUSES.includes(status as QuestionStatus) ? status as QuestionStatus : 'open';
+}
+
+export function canTransition(from: string | null | undefined, to: QuestionStatus) {
+  return TRANSITIONS[normalizeStatus(from)].includes(to);
+}
+
+export class QuestionLifecycle {
+  private db: any;
+  private config: any;
+
+  constructor(tursoClient: any, config: any = {}) {
+    this.db = tursoClient;
+    this.config = {
+      debug: config.debug || false,
+      consoleOnly: config.consoleOnly || false,
+      ...config
+    };
+  }
+
+  log(level: string, message: string, data: any = null) {
+    if (level === 'DEBUG' && !this.config.debug) return;
+    logger.log(level, message, data);
+  }
+
+  /**
+   * Move questions to a new status and record the change
+   * Questions that are deleted, already in that status or cannot move there are left alone.
+   * Returns the ids that changed status.
+   */
+  async transition(questionIds: number[], to: QuestionStatus, actor: StatusActor, options: TransitionOptions = {}): Promise<number[]> {
+    if (questionIds.length === 0) return [];
+    const at = options.at ?? Math.floor(Date.now() / 1000);
+    const source = options.source ?? null;
+
+    if (this.config.consoleOnly) {
+      this.log('INFO', `[CONSOLE-ONLY] Would move ${questionIds.length} questions to ${to}`, { questionIds, actor, source });
+      return questionIds;
+    }
+
+    try {
+      const current = await this.db.execute({
+        sql: `SELECT id, status, status_changed_at, created_at FROM questions
+              WHERE id IN (${questionIds.map(() => '?').join(',')}) AND deleted_at IS NULL`,
+        args: questionIds
+      });
+
+      const statements: any[] = [];
+      const changed: number[] = [];
+
+      for (const row of current.rows as any[]) {
+        const from = normalizeStatus(row.status);
+        if (!canTransition(from, to)) {
+          this.log('DEBUG', `Question ${row.id} cannot move from ${from} to ${to} - ignoring`);
+          continue;
+        }
+
+        const secondsInPrevious = Math.max(0, at - Number(row.status_changed_at ?? row.created_at));
+        statements.push(this.buildStatusUpdate(Number(row.id), row.status, to, at, from === 'waiting_on_client' ? secondsInPrevious : 0, actor, options));
+        // Only recorded when the update above applied (the status was not changed concurrently)
+        statements.push({
+          sql: `INSERT INTO question_status_history
+                  (question_id, from_status, to_status, actor_id, actor_name, source, seconds_in_previous_status, changed_at)
+                SELECT ?, ?, ?, ?, ?, ?, ?, ? WHERE changes() = 1`,
+          args: [row.id, from, to, actor.id, actor.name, source, secondsInPrevious, at]
+        });
+        changed.push(Number(row.id));
+      }
+
+      if (statements.length === 0) return [];
+      await this.db.batch(statements, 'write');
+
+      this.log('INFO', `Moved ${changed.length} questions to ${to}`, {
+        action: 'question_status',
+        questionIds: changed,
+        to,
+        actor,
+        source,
+      });
+      return changed;
+    } catch (error: any) {
+      this.log('ERROR', `Failed to move questions to ${to}: ${error.message}`);
+      return [];
+    }
+  }
+
+  private buildStatusUpdate(questionId: number, fromRaw: string | null, to: QuestionStatus, at: number, waitingSeconds: number, actor: StatusActor, options: TransitionOptions) {
+    const sets = ['status = ?', 'status_changed_at = ?', 'waiting_on_client_seconds = COALESCE(waiting_on_client_seconds, 0) + ?', 'updated_at = unixepoch()'];
+    const args: any[] = [to, at, waitingSeconds];
+
+    if (to === 'resolved') {
+      sets.push(
+        'resolved_by_id = ?', 'resolved_at = ?', 'match_method = ?',
+        'resolution_time_seconds = MAX(0, ? - created_at - (COALESCE(waiting_on_client_seconds, 0) + ?))'
+      );
+      args.push(actor.id, at, options.matchMethod ?? null, at, waitingSeconds);
+    } else if (to === 'reopened') {
+      sets.push(
+        'resolved_by_id = NULL', 'resolved_at = NULL', 'match_method = NULL', 'resolution_time_seconds = NULL',
+        'client_confirmed_at = NULL', 'confirmed_resolution_time_seconds = NULL', 'reopen_count = COALESCE(reopen_count, 0) + 1'
+      );
+    }
+
+    return {
+      sql: `UPDATE questions SET ${sets.join(', ')} WHERE id = ? AND status IS ?`,
+      args: [...args, questionId, fromRaw]
+    };
+  }
+
+}
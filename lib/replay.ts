@@ -0,0 +1,443 @@
+/**
+ * Record & Replay
+ * Captures live pipeline input as NDJSON fixtures and replays them offline
+ *
+ * Record mode (PIPELINE_MODE=record) appends one event per line:
+ * - message: an incoming client channel message with its channel (and parent) snapshot
+ *   and whether the author was a team member when it was sent
+ * - ai:      an OpenRouter request and response, keyed by the message's correlation id
+ *
+ * Replay mode (npm run replay -- <fixture>) runs the listener's pipeline against a stubbed
+ * Discord client (serving the fixture's messages and channel history), a stubbed OpenAI client
+ * (serving the recorded responses in order per message) and a fresh local SQLite database,
+ * then writes a report of the resulting clients, questions, sentiment, risk radar and checkpoint rows.
+ * Replayed channels left without a checkpoint (gap recovery would skip them) are listed.
+ * AI requests that differ from the recorded ones (e.g. after a prompt change) are listed.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ChannelType, Collection } from 'discord.js';
+import type { GuildBasedChannel, Message } from 'discord.js';
+import type OpenAI from 'openai';
+import { createLogger, getLogContext } from './logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AIEndpoint = 'chat.completions' | 'embeddings';
+
+export interface FixtureChannel {
+  id: string;
+  name: string;
+  type: number;
+  parentId: string | null;
+  guildId: string;
+  guildName: string;
+  ownerId: string | null;
+  createdTimestamp: number | null;
+  parent: FixtureChannel | null;
+}
+
+export interface FixtureMessage {
+  id: string;
+  channelId: string;
+  guildId: string;
+  content: string;
+  createdTimestamp: number;
+  editedTimestamp: number | null;
+  author: { id: string; username: string; bot: boolean };
+  referenceMessageId: string | null;
+  teamMember: boolean;
+  channel: FixtureChannel;
+}
+
+export interface FixtureAICall {
+  correlationId: string | null;
+  endpoint: AIEndpoint;
+  request: any;
+  response: any;
+}
+
+export type FixtureEvent =
+  | { type: 'message'; recordedAt: string; message: FixtureMessage }
+  | ({ type: 'ai'; recordedAt: string } & FixtureAICall);
+
+// channel.messages.fetch() history options served by the Discord stub
+interface HistoryOptions {
+  limit?: number;
+  before?: string;
+  after?: string;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const logger = createLogger('replay');
+
+const THREAD_TYPES: number[] = [ChannelType.PublicThread, ChannelType.PrivateThread, ChannelType.AnnouncementThread];
+
+export function defaultRecordPath() {
+  return path.join(process.cwd(), 'fixtures', `recording-${new Date().toISOString().replace(/[:.]/g, '-')}.ndjson`);
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+function snapshotChannel(channel: GuildBasedChannel): FixtureChannel {
+  const parent = channel.isThread() ? channel.parent : null;
+  return {
+    id: channel.id,
+    name: channel.name,
+    type: channel.type,
+    parentId: channel.parentId,
+    guildId: channel.guild.id,
+    guildName: channel.guild.name,
+    ownerId: channel.isThread() ? channel.ownerId : null,
+    createdTimestamp: 'createdTimestamp' in channel ? channel.createdTimestamp : null,
+    parent: parent ? snapshotChannel(parent) : null,
+  };
+}
+
+export class FixtureRecorder {
+  private stream: fs.WriteStream;
+
+  constructor(readonly filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.stream = fs.createWriteStream(filePath, { flags: 'a' });
+    logger.info(`Recording pipeline input to ${filePath}`);
+  }
+
+  recordMessage(message: Message<true>, teamMember: boolean) {
+    this.write({
+      type: 'message',
+      recordedAt: new Date().toISOString(),
+      message: {
+        id: message.id,
+        channelId: message.channelId,
+        guildId: message.guildId,
+        content: message.content,
+        createdTimestamp: message.createdTimestamp,
+        editedTimestamp: message.editedTimestamp,
+        author: { id: message.author.id, username: message.author.username, bot: message.author.bot },
+        referenceMessageId: message.reference?.messageId ?? null,
+        teamMember,
+        channel: snapshotChannel(message.channel),
+      },
+    });
+  }
+
+  recordAICall(endpoint: AIEndpoint, request: any, response: any) {
+    this.write({
+      type: 'ai',
+      recordedAt: new Date().toISOString(),
+      correlationId: (getLogContext().correlationId as string | undefined) ?? null,
+      endpoint,
+      request,
+      response,
+    });
+  }
+
+  async close() {
+    await new Promise<void>(resolve => this.stream.end(() => resolve()));
+  }
+
+  private write(event: FixtureEvent) {
+    this.stream.write(JSON.stringify(event) + '\n');
+  }
+}
+
+/**
+ * Record every completion and embedding made through the client (wraps it in place)
+ */
+export function recordAICalls(client: OpenAI, recorder: FixtureRecorder) {
+  const completions: any = client.chat.completions;
+  const createCompletion = completions.create.bind(completions);
+  completions.create = async (params: any, options?: any) => {
+    const response = await createCompletion(params, options);
+    recorder.recordAICall('chat.completions', params, response);
+    return response;
+  };
+
+  const embeddings: any = client.embeddings;
+  const createEmbedding = embeddings.create.bind(embeddings);
+  embeddings.create = async (params: any, options?: any) => {
+    const response = await createEmbedding(params, options);
+    recorder.recordAICall('embeddings', params, response);
+    return response;
+  };
+
+  return client;
+}
+
+// ============================================================================
+// REPLAY STUBS
+// ============================================================================
+
+/**
+ * Serves fixture messages through the subset of the discord.js API the pipeline uses
+ * Channel history only includes messages up to the one currently being replayed.
+ */
+export class ReplayDiscordClient {
+  private channelStubs = new Map<string, any>();
+  private messageStubs = new Map<string, any>();
+  private cursor = 0;
+
+  readonly ws = { status: 0, ping: 0 };
+  readonly guilds = { cache: new Collection<string, any>() };
+  readonly channels = {
+    fetch: async (id: string) => this.channelStubs.get(id) ?? null,
+  };
+
+  constructor(messages: FixtureMessage[]) {
+    for (const message of messages) {
+      this.messageStubs.set(message.id, this.buildMessage(message));
+    }
+  }
+
+  get messages(): Message<true>[] {
+    return [...this.messageStubs.values()];
+  }
+
+  /**
+   * Make history visible up to (and including) this message
+   * lookaheadMs also shows what arrived while the message's job was delayed (burst window)
+   */
+  advanceTo(message: Message<true>, lookaheadMs = 0) {
+    this.cursor = message.createdTimestamp + lookaheadMs;
+  }
+
+  isReady() {
+    return true;
+  }
+
+  on() {
+    return this;
+  }
+
+  once() {
+    return this;
+  }
+
+  async destroy() {}
+
+  private buildChannel(fixture: FixtureChannel): any {
+    const existing = this.channelStubs.get(fixture.id);
+    if (existing) return existing;
+
+    const channel = {
+      id: fixture.id,
+      name: fixture.name,
+      type: fixture.type,
+      parentId: fixture.parentId,
+      guildId: fixture.guildId,
+      guild: { id: fixture.guildId, name: fixture.guildName },
+      ownerId: fixture.ownerId,
+      createdTimestamp: fixture.createdTimestamp,
+      parent: fixture.parent ? this.buildChannel(fixture.parent) : null,
+      isThread: () => THREAD_TYPES.includes(fixture.type),
+      isTextBased: () => true,
+      isDMBased: () => false,
+      messages: {
+        fetch: (options: string | HistoryOptions) => this.fetchMessages(fixture.id, options),
+      },
+    };
+    this.channelStubs.set(fixture.id, channel);
+    return channel;
+  }
+
+  private buildMessage(fixture: FixtureMessage): any {
+    const message: any = {
+      id: fixture.id,
+      channelId: fixture.channelId,
+      guildId: fixture.guildId,
+      channel: this.buildChannel(fixture.channel),
+      content: fixture.content,
+      createdTimestamp: fixture.createdTimestamp,
+      createdAt: new Date(fixture.createdTimestamp),
+      editedTimestamp: fixture.editedTimestamp,
+      author: fixture.author,
+      reference: fixture.referenceMessageId ? { messageId: fixture.referenceMessageId } : null,
+      partial: false,
+      inGuild: () => true,
+      fetch: async () => message,
+      fetchReference: async () => {
+        const referenced = fixture.referenceMessageId ? this.messageStubs.get(fixture.referenceMessageId) : null;
+        if (!referenced) throw new Error('Unknown Message');
+        return referenced;
+      },
+    };
+    message.guild = message.channel.guild;
+    return message;
+  }
+
+  private async fetchMessages(channelId: string, options: string | HistoryOptions) {
+    if (typeof options === 'string') {
+      const message = this.messageStubs.get(options);
+      if (!message || message.channelId !== channelId) throw new Error('Unknown Message');
+      return message;
+    }
+
+    const limit = options.limit ?? 50;
+    const before = options.before ? this.messageStubs.get(options.before)?.createdTimestamp ?? Infinity : Infinity;
+    const after = options.after ? this.messageStubs.get(options.after)?.createdTimestamp ?? -Infinity : -Infinity;
+    const visible = [...this.messageStubs.values()]
+      .filter(m => m.channelId === channelId && m.createdTimestamp <= this.cursor && m.createdTimestamp < before && m.createdTimestamp > after);
+
+    // Newest first, like the Discord API; `after` pages start right after the given message
+    const history = options.after ? visible.slice(0, limit).reverse() : visible.reverse().slice(0, limit);
+    return new Collection<string, any>(history.map(m => [m.id, m]));
+  }
+}
+
+/**
+ * Serves recorded AI responses in order per message (correlation id) and endpoint
+ */
+export class ReplayOpenAI {
+  private recorded = new Map<string, FixtureAICall[]>();
+
+  readonly stats = {
+    served: 0,
+    missing: [] as Array<{ correlationId: string | null; endpoint: AIEndpoint }>,
+    changedRequests: [] as Array<{ correlationId: string | null; endpoint: AIEndpoint }>,
+  };
+
+  readonly chat = { completions: { create: (params: any) => this.respond('chat.completions', params) } };
+  readonly embeddings = { create: (params: any) => this.respond('embeddings', params) };
+
+  constructor(calls: FixtureAICall[]) {
+    for (const call of calls) {
+      const key = `${call.correlationId}:${call.endpoint}`;
+      const queue = this.recorded.get(key) || [];
+      queue.push(call);
+      this.recorded.set(key, queue);
+    }
+  }
+
+  private async respond(endpoint: AIEndpoint, params: any) {
+    const correlationId = (getLogContext().correlationId as string | undefined) ?? null;
+    const call = this.recorded.get(`${correlationId}:${endpoint}`)?.shift();
+
+    if (!call) {
+      this.stats.missing.push({ correlationId, endpoint });
+      throw new Error(`No recorded ${endpoint} response for message ${correlationId}`);
+    }
+
+    // The prompt or its inputs changed since recording - the recorded answer may no longer fit
+    const sent = endpoint === 'embeddings' ? params.input : params.messages;
+    const recordedInput = endpoint === 'embeddings' ? call.request?.input : call.request?.messages;
+    if (JSON.stringify(sent) !== JSON.stringify(recordedInput)) {
+      this.stats.changedRequests.push({ correlationId, endpoint });
+    }
+
+    this.stats.served++;
+    return call.response;
+  }
+}
+
+// ============================================================================
+// REPLAY SESSION
+// ============================================================================
+
+export interface ReplaySession {
+  fixturePath: string;
+  discord: ReplayDiscordClient;
+  openai: ReplayOpenAI;
+  teamMemberIds: string[];
+}
+
+/**
+ * Parse a fixture file; messages are replayed in the order they were sent
+ */
+export function loadReplaySession(fixturePath: string): ReplaySession {
+  const events: FixtureEvent[] = fs.readFileSync(fixturePath, 'utf8')
+    .split('\n')
+    .filter(line => line.trim())
+    .map((line, i) => {
+      try {
+        return JSON.parse(line);
+      } catch (error: any) {
+        throw new Error(`Invalid fixture line ${i + 1} in ${fixturePath}: ${error.message}`);
+      }
+    });
+
+  const messages = events
+    .filter((e): e is Extract<FixtureEvent, { type: 'message' }> => e.type === 'message')
+    .map(e => e.message)
+    .sort((a, b) => a.createdTimestamp - b.createdTimestamp || (BigInt(a.id) < BigInt(b.id) ? -1 : 1));
+  const aiCalls = events.filter((e): e is Extract<FixtureEvent, { type: 'ai' }> => e.type === 'ai');
+
+  logger.info(`Loaded fixture ${fixturePath}: ${messages.length} messages, ${aiCalls.length} AI responses`);
+
+  return {
+    fixturePath,
+    discord: new ReplayDiscordClient(messages),
+    openai: new ReplayOpenAI(aiCalls),
+    teamMemberIds: [...new Set(messages.filter(m => m.teamMember).map(m => m.author.id))],
+  };
+}
+
+/**
+ * Create the schema in the replay database from db/schema.ts (the DDL drizzle-kit would generate)
+ * Throws when a statement fails - a replay against a partial schema would not be a regression run
+ */
+export async function prepareReplayDatabase(tursoClient: any) {
+  // drizzle-kit is a dev dependency, only loaded for replays
+  const { generateSQLiteDrizzleJson, generateSQLiteMigration } = await import('drizzle-kit/api');
+  const schema = await import('../db/schema');
+
+  const statements = await generateSQLiteMigration(
+    await generateSQLiteDrizzleJson({}),
+    await generateSQLiteDrizzleJson(schema)
+  );
+
+  for (const statement of statements) {
+    try {
+      await tursoClient.execute(statement);
+    } catch (error: any) {
+      throw new Error(`Replay database schema failed at "${statement.split('\n')[0]}": ${error.message}`);
+    }
+  }
+  logger.info(`Replay database created from db/schema.ts (${statements.length} statements)`);
+}
+
+function toRows(result: any) {
+  return result.rows.map((row: any) => Object.fromEntries(result.columns.map((column: string) => [column, row[column]])));
+}
+
+/**
+ * Rows produced by the replay (columns that depend on the wall clock are left out so reports diff cleanly)
+ */
+export async function buildReplayReport(tursoClient: any, session: ReplaySession) {
+  const [clients, questions, sentiment, risk, deadJobs, checkpoints] = await Promise.all([
+    tursoClient.execute(`SELECT channel_id, client_name, segment, churn_risk_level FROM clients ORDER BY channel_id`),
+    tursoClient.execute(`SELECT id, channel_id, type, urgency, priority, status, ai_summary, discord_msg_link, resolved_by_id, match_method, created_at, resolved_at FROM questions ORDER BY id`),
+    tursoClient.execute(`SELECT message_id, channel_id, sentiment_type, sentiment_score, engagement_level, confidence_level,
+      is_complaint, is_pause_request, is_payment_issue, is_cancellation_signal, is_frustration, is_confusion
+      FROM customer_sentiment ORDER BY message_timestamp, message_id`),
+    tursoClient.execute(`SELECT channel_id, last_client_msg_at, last_team_reply_at, risk_status FROM risk_radar ORDER BY channel_id`),
+    tursoClient.execute(`SELECT id, payload, last_error FROM jobs WHERE status = 'dead' ORDER BY id`),
+    tursoClient.execute(`SELECT discord_channel_id, channel_id, last_message_id FROM channel_checkpoints ORDER BY discord_channel_id`),
+  ]);
+
+  // Every replayed message moves its channel's checkpoint, whether or not the channel has a client row
+  const checkpointed = new Set(checkpoints.rows.map((row: any) => row.discord_channel_id));
+  const missingCheckpoints = [...new Set(session.discord.messages.map(message => message.channelId))]
+    .filter(channelId => !checkpointed.has(channelId));
+
+  return {
+    fixture: session.fixturePath,
+    messages: session.discord.messages.length,
+    ai: session.openai.stats,
+    failedJobs: toRows(deadJobs),
+    missingCheckpoints,
+    clients: toRows(clients),
+    questions: toRows(questions),
+    customer_sentiment: toRows(sentiment),
+    risk_radar: toRows(risk),
+    channel_checkpoints: toRows(checkpoints),
+  };
+}
@@ -0,0 +1,293 @@
+/**
+ * SLA Monitor
+ * Measures questions against first response and resolution targets and records warnings and breaches
+ *
+ * Policies are loaded from a JSON file (default: config/sla-policies.json) and hot-reloaded when
+ * the file changes. Targets are set per priority; a client segment can override them per priority:
+ *   { "warningAt": 0.8,
+ *     "priorities": { "High": { "firstResponseMinutes": 60, "resolutionMinutes": 1440 } },
+ *     "segments": { "gcp": { "High": { "firstResponseMinutes": 30 } } } }
+ * Questions without a priority use Medium's targets.
+ *
+ * Clocks (from the moment the question was raised):
+ * - first_response: until the first matched team reply (or the resolution, if nobody replied)
+ * - resolution:     until resolved or closed, minus the time spent waiting on the client
+ *
+ * evaluate() runs periodically and records to sla_events, at most once per question, clock and event:
+ * - warning:  a running clock passed warningAt of its target
+ * - breached: a clock passed its target
+ * - met:      a clock stopped within its target
+ * Questions raised in the last EVALUATION_LOOKBACK_DAYS are evaluated, so backfilled questions get
+ * outcomes too. A reopened question's resolution clock runs again and can still breach after it was met.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { slaEvents } from './metrics';
+import { createLogger } from './logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SLAMetric = 'first_response' | 'resolution';
+export type SLAEventType = 'warning' | 'breached' | 'met';
+
+export interface SLATarget {
+  firstResponseMinutes?: number;
+  resolutionMinutes?: number;
+}
+
+export interface SLAPolicyConfig {
+  warningAt: number; // Share of the target after which a running clock is flagged
+  priorities: Record<string, SLATarget>;
+  segments: Record<string, Record<string, SLATarget>>; // segment -> priority -> overrides
+}
+
+export interface SLAEvent {
+  questionId: number;
+  channelId: string;
+  metric: SLAMetric;
+  eventType: SLAEventType;
+  priority: string;
+  segment: string | null;
+  targetSeconds: number;
+  elapsedSeconds: number;
+  occurredAt: number; // Unix seconds: evaluation time for running clocks, stop time otherwise
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const DEFAULT_PRIORITY = 'Medium';
+
+// Used when the policies file is missing
+export const DEFAULT_SLA_POLICIES: SLAPolicyConfig = {
+  warningAt: 0.8,
+  priorities: {
+    Critical: { firstResponseMinutes: 30, resolutionMinutes: 240 },
+    High: { firstResponseMinutes: 60, resolutionMinutes: 1440 },
+    Medium: { firstResponseMinutes: 240, resolutionMinutes: 4320 },
+    Low: { firstResponseMinutes: 1440, resolutionMinutes: 10080 },
+  },
+  segments: {},
+};
+
+const EVALUATION_LOOKBACK_DAYS = 30;
+
+const RELOAD_POLL_INTERVAL_MS = 2000;
+
+// ============================================================================
+// MONITOR
+// ============================================================================
+
+const logger = createLogger('sla');
+
+export class SLAMonitor {
+  private db: any;
+  private config: any;
+  private policies: SLAPolicyConfig = DEFAULT_SLA_POLICIES;
+
+  constructor(tursoClient: any, config: any = {}) {
+    this.db = tursoClient;
+    this.config = {
+      debug: config.debug || false,
+      consoleOnly: config.consoleOnly || false,
+      ...config,
+      // The listener passes SLA_POLICIES_PATH through as-is, so unset must still fall back
+      policiesPath: config.policiesPath || path.join(process.cwd(), 'config', 'sla-policies.json'),
+    };
+  }
+
+  log(level: string, message: string, data: any = null) {
+    if (level === 'DEBUG' && !this.config.debug) return;
+    logger.log(level, message, data);
+  }
+
+  /**
+   * Load (or reload) the policies file
+   * An invalid file is rejected and the previously loaded policies stay active
+   */
+  load() {
+    if (!fs.existsSync(this.config.policiesPath)) {
+      this.log('WARN', `SLA policies file not found at ${this.config.policiesPath} - using default policies`);
+      this.policies = DEFAULT_SLA_POLICIES;
+      return true;
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.config.policiesPath, 'utf8'));
+      this.policies = this.validate(parsed);
+      this.log('INFO', `Loaded SLA policies for ${Object.keys(this.policies.priorities).length} priorities and ${Object.keys(this.policies.segments).length} segments from ${this.config.policiesPath}`);
+      return true;
+    } catch (error: any) {
+      this.log('ERROR', `Invalid SLA policies in ${this.config.policiesPath} - keeping previous policies: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Reload the policies whenever the file changes
+   */
+  watch() {
+    fs.watchFile(this.config.policiesPath, { interval: RELOAD_POLL_INTERVAL_MS }, (curr, prev) => {
+      if (curr.mtimeMs === prev.mtimeMs) return;
+      this.log('INFO', `SLA policies changed - reloading`);
+      this.load();
+    });
+  }
+
+  unwatch() {
+    fs.unwatchFile(this.config.policiesPath);
+  }
+
+  /**
+   * Targets in seconds for a priority and client segment (null when the policy sets none)
+   */
+  targetsFor(priority: string | null, segment: string | null): Record<SLAMetric, number | null> {
+    const key = priority && this.policies.priorities[priority] ? priority : DEFAULT_PRIORITY;
+    const target = { ...this.policies.priorities[key], ...(segment ? this.policies.segments[segment]?.[key] : undefined) };
+
+    return {
+      first_response: target.firstResponseMinutes != null ? target.firstResponseMinutes * 60 : null,
+      resolution: target.resolutionMinutes != null ? target.resolutionMinutes * 60 : null,
+    };
+  }
+
+  /**
+   * Check every recent question against its targets and record new warnings, breaches and met targets
+   * Returns the events recorded by this run.
+   */
+  async evaluate(now = Math.floor(Date.now() / 1000)): Promise<SLAEvent[]> {
+    try {
+      const result = await this.db.execute({
+        sql: `SELECT q.id, q.channel_id, q.priority, q.status, q.created_at, q.updated_at, q.first_response_at,
+                q.resolved_at, q.status_changed_at, q.waiting_on_client_seconds, c.segment,
+                (SELECT GROUP_CONCAT(e.metric || ':' || e.event_type) FROM sla_events e WHERE e.question_id = q.id) as recorded
+              FROM questions q
+              LEFT JOIN clients c ON c.channel_id = q.channel_id
+              WHERE q.deleted_at IS NULL AND q.created_at >= ?
+                AND NOT (q.status IN ('resolved', 'closed') AND (
+                  SELECT COUNT(DISTINCT e.metric) FROM sla_events e WHERE e.question_id = q.id AND e.event_type IN ('met', 'breached')
+                ) = 2)`,
+        args: [now - EVALUATION_LOOKBACK_DAYS * 86400]
+      });
+
+      const events = (result.rows as any[]).flatMap(row => this.evaluateQuestion(row, now));
+      if (events.length === 0) return [];
+
+      const recorded = await this.record(events);
+      for (const event of recorded) {
+        slaEvents.inc({ metric: event.metric, event: event.eventType });
+        const level = event.eventType === 'breached' ? 'WARN' : event.eventType === 'warning' ? 'INFO' : 'DEBUG';
+        this.log(level, `SLA ${event.eventType}: question ${event.questionId} ${event.metric.replace('_', ' ')}`, {
+          ...event,
+          targetMinutes: Math.round(event.targetSeconds / 60),
+          elapsedMinutes: Math.round(event.elapsedSeconds / 60),
+        });
+      }
+      return recorded;
+
+    } catch (error: any) {
+      this.log('ERROR', `SLA evaluation failed: ${error.message}`);
+      return [];
+    }
+  }
+
+  private evaluateQuestion(row: any, now: number): SLAEvent[] {
+    const status = row.status || 'open';
+    const createdAt = Number(row.created_at);
+    const recorded = new Set(String(row.recorded || '').split(',').filter(Boolean));
+    const targets = this.targetsFor(row.priority, row.segment);
+
+    const resolutionStop = row.resolved_at != null ? Number(row.resolved_at)
+      : ['resolved', 'closed'].includes(status) ? Number(row.status_changed_at ?? row.updated_at)
+      : null;
+    const firstResponseStop = row.first_response_at != null ? Number(row.first_response_at) : resolutionStop;
+
+    // Time waiting on the client is off the resolution clock, including the current wait
+    let waiting = Number(row.waiting_on_client_seconds || 0);
+    if (status === 'waiting_on_client') waiting += Math.max(0, now - Number(row.status_changed_at ?? createdAt));
+
+    const clocks: Array<{ metric: SLAMetric; stoppedAt: number | null; elapsed: number }> = [
+      { metric: 'first_response', stoppedAt: firstResponseStop, elapsed: (firstResponseStop ?? now) - createdAt },
+      { metric: 'resolution', stoppedAt: resolutionStop, elapsed: (resolutionStop ?? now) - createdAt - waiting },
+    ];
+
+    const events: SLAEvent[] = [];
+    for (const { metric, stoppedAt, elapsed } of clocks) {
+      const target = targets[metric];
+      if (target == null || recorded.has(`${metric}:breached`)) continue;
+
+      const running = stoppedAt == null;
+      let eventType: SLAEventType | null = null;
+      if (elapsed >= target) eventType = 'breached';
+      else if (!running) eventType = 'met';
+      else if (elapsed >= target * this.policies.warningAt) eventType = 'warning';
+
+      if (!eventType || recorded.has(`${metric}:${eventType}`)) continue;
+      events.push({
+        questionId: Number(row.id),
+        channelId: row.channel_id,
+        metric,
+        eventType,
+        priority: row.priority || DEFAULT_PRIORITY,
+        segment: row.segment ?? null,
+        targetSeconds: target,
+        elapsedSeconds: Math.max(0, elapsed),
+        occurredAt: stoppedAt ?? now,
+      });
+    }
+    return events;
+  }
+
+  /**
+   * Insert events, skipping ones recorded meanwhile; returns the events that were new
+   */
+  private async record(events: SLAEvent[]): Promise<SLAEvent[]> {
+    if (this.config.consoleOnly) {
+      this.log('INFO', `[CONSOLE-ONLY] Would record ${events.length} SLA events`);
+      return events;
+    }
+
+    const results = await this.db.batch(events.map(event => ({
+      sql: `INSERT INTO sla_events (
+              question_id, channel_id, metric, event_type, priority, segment,
+              target_seconds, elapsed_seconds, occurred_at, created_at
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, unixepoch())
+            ON CONFLICT(question_id, metric, event_type) DO NOTHING
+            RETURNING id`,
+      args: [
+        event.questionId, event.channelId, event.metric, event.eventType, event.priority, event.segment,
+        event.targetSeconds, event.elapsedSeconds, event.occurredAt,
+      ]
+    })), 'write');
+
+    return events.filter((_, i) => results[i].rows.length > 0);
+  }
+
+  private validate(parsed: any): SLAPolicyConfig {
+    if (!parsed.priorities || typeof parsed.priorities !== 'object') throw new Error('"priorities" must be an object');
+
+    const warningAt = parsed.warningAt ?? DEFAULT_SLA_POLICIES.warningAt;
+    if (typeof warningAt !== 'number' || warningAt <= 0 || warningAt > 1) throw new Error('"warningAt" must be a number between 0 and 1');
+
+    const checkTarget = (name: string, target: any) => {
+      for (const field of ['firstResponseMinutes', 'resolutionMinutes']) {
+        if (target?.[field] != null && !(typeof target[field] === 'number' && target[field] > 0)) {
+          throw new Error(`${name}: "${field}" must be a positive number of minutes`);
+        }
+      }
+    };
+
+    for (const [priority, target] of Object.entries(parsed.priorities)) checkTarget(`Priority "${priority}"`, target);
+    if (!parsed.priorities[DEFAULT_PRIORITY]) throw new Error(`"priorities" needs a "${DEFAULT_PRIORITY}" policy (used for questions without a priority)`);
+
+    for (const [segment, overrides] of Object.entries<any>(parsed.segments || {})) {
+      for (const [priority, target] of Object.entries(overrides || {})) checkTarget(`Segment "${segment}" priority "${priority}"`, target);
+    }
+
+    return { warningAt, priorities: parsed.priorities, segments: parsed.segments || {} };
+  }
+}
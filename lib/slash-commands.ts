@@ -0,0 +1,209 @@
+/**
+ * Slash Command Definitions for the Question Board
+ *
+ * Commands (team members only):
+ * - /questions open [scope]           Paginated list of open questions (this channel or all channels)
+ * - /question resolve <id>            Resolve a question
+ * - /question reopen <id>             Reopen a resolved question
+ * - /question status <id> <state>     Move a question to another lifecycle state
+ * - /question priority <id> <level>   Change a question's priority
+ * - /risk client [channel]            Risk profile for a client channel
+ * - /risk top [limit]                 Clients with the highest churn risk
+ *
+ * This module only builds command payloads and replies; the listener handles
+ * the interactions using the same question board functions as message events.
+ */
+
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ChannelType,
+  EmbedBuilder,
+  SlashCommandBuilder,
+} from 'discord.js';
+
+import { QUESTION_STATUSES } from './question-lifecycle';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const QUESTION_PRIORITIES = ['Critical', 'High', 'Medium', 'Low'];
+
+// States a question can be moved to by hand (nothing moves back to open)
+export const QUESTION_STATUS_CHOICES = QUESTION_STATUSES.filter(status => status !== 'open');
+
+export const QUESTIONS_PAGE_SIZE = 10;
+
+// Button custom id prefix for /questions open pagination: questions:page:<scope>:<channelId>:<page>
+export const QUESTIONS_PAGE_BUTTON_PREFIX = 'questions:page';
+
+const RISK_COLORS: Record<string, number> = {
+  CRITICAL: 0xed4245,
+  AT_RISK: 0xfee75c,
+  HEALTHY: 0x57f287,
+};
+
+// ============================================================================
+// COMMAND DEFINITIONS
+// ============================================================================
+
+export const SLASH_COMMANDS = [
+  new SlashCommandBuilder()
+    .setName('questions')
+    .setDescription('Question board')
+    .addSubcommand(sub => sub
+      .setName('open')
+      .setDescription('List open questions')
+      .addStringOption(opt => opt
+        .setName('scope')
+        .setDescription('This channel (default) or all client channels')
+        .addChoices(
+          { name: 'This channel', value: 'channel' },
+          { name: 'All channels', value: 'all' },
+        ))),
+
+  new SlashCommandBuilder()
+    .setName('question')
+    .setDescription('Manage a single question')
+    .addSubcommand(sub => sub
+      .setName('resolve')
+      .setDescription('Mark a question as resolved')
+      .addIntegerOption(opt => opt.setName('id').setDescription('Question ID').setRequired(true)))
+    .addSubcommand(sub => sub
+      .setName('reopen')
+      .setDescription('Reopen a resolved question')
+      .addIntegerOption(opt => opt.setName('id').setDescription('Question ID').setRequired(true)))
+    .addSubcommand(sub => sub
+      .setName('status')
+      .setDescription('Move a question to another state')
+      .addIntegerOption(opt => opt.setName('id').setDescription('Question ID').setRequired(true))
+      .addStringOption(opt => opt
+        .setName('state')
+        .setDescription('New state')
+        .setRequired(true)
+        .addChoices(...QUESTION_STATUS_CHOICES.map(status => ({ name: status.replace(/_/g, ' '), value: status })))))
+    .addSubcommand(sub => sub
+      .setName('priority')
+      .setDescription('Change the priority of a question')
+      .addIntegerOption(opt => opt.setName('id').setDescription('Question ID').setRequired(true))
+      .addStringOption(opt => opt
+        .setName('level')
+        .setDescription('New priority')
+        .setRequired(true)
+        .addChoices(...QUESTION_PRIORITIES.map(p => ({ name: p, value: p }))))),
+
+  new SlashCommandBuilder()
+    .setName('risk')
+    .setDescription('Client churn risk')
+    .addSubcommand(sub => sub
+      .setName('client')
+      .setDescription('Risk profile for a client channel')
+      .addChannelOption(opt => opt
+        .setName('channel')
+        .setDescription('Client channel (defaults to this channel)')
+        .addChannelTypes(ChannelType.GuildText, ChannelType.GuildForum)))
+    .addSubcommand(sub => sub
+      .setName('top')
+      .setDescription('Clients with the highest churn risk')
+      .addIntegerOption(opt => opt
+        .setName('limit')
+        .setDescription('Number of clients to show (default 10)')
+        .setMinValue(1)
+        .setMaxValue(25))),
+].map(command => command.toJSON());
+
+// ============================================================================
+// REPLY BUILDERS
+// ============================================================================
+
+/**
+ * Build one page of the open questions list with previous/next buttons
+ */
+export function buildQuestionsPage(questions: any[], page: number, scope: 'channel' | 'all', channelId: string) {
+  const totalPages = Math.max(1, Math.ceil(questions.length / QUESTIONS_PAGE_SIZE));
+  const currentPage = Math.min(Math.max(page, 0), totalPages - 1);
+  const pageItems = questions.slice(currentPage * QUESTIONS_PAGE_SIZE, (currentPage + 1) * QUESTIONS_PAGE_SIZE);
+
+  const embed = new EmbedBuilder()
+    .setTitle(scope === 'all' ? 'Open questions - all channels' : 'Open questions - this channel')
+    .setColor(0x5865f2)
+    .setFooter({ text: `Page ${currentPage + 1}/${totalPages} • ${questions.length} open` });
+
+  if (pageItems.length === 0) {
+    embed.setDescription('No open questions 🎉');
+  } else {
+    embed.setDescription(pageItems.map(q => {
+      const summary = (q.summary || q.content || '').substring(0, 120);
+      const channel = scope === 'all' ? ` • <#${q.channelId}>` : '';
+      const created = q.createdAt ? ` • <t:${q.createdAt}:R>` : '';
+      return `**#${q.id}** [${q.priority || 'Medium'} • ${q.type} • ${q.status.replace(/_/g, ' ')}]${channel}${created}\n${summary} ([jump](${q.link}))`;
+    }).join('\n\n'));
+  }
+
+  const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`${QUESTIONS_PAGE_BUTTON_PREFIX}:${scope}:${channelId}:${currentPage - 1}`)
+      .setLabel('Previous')
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(currentPage === 0),
+    new ButtonBuilder()
+      .setCustomId(`${QUESTIONS_PAGE_BUTTON_PREFIX}:${scope}:${channelId}:${currentPage + 1}`)
+      .setLabel('Next')
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(currentPage >= totalPages - 1),
+  );
+
+  return { embeds: [embed], components: [row] };
+}
+
+/**
+ * Parse a /questions open pagination button id
+ */
+export function parseQuestionsPageButton(customId: string) {
+  if (!customId.startsWith(`${QUESTIONS_PAGE_BUTTON_PREFIX}:`)) return null;
+
+  const [scope, channelId, page] = customId.slice(QUESTIONS_PAGE_BUTTON_PREFIX.length + 1).split(':');
+  return {
+    scope: scope === 'all' ? 'all' as const : 'channel' as const,
+    channelId,
+    page: parseInt(page) || 0,
+  };
+}
+
+/**
+ * Build the risk profile embed for one client
+ */
+export function buildClientRiskEmbed(profile: any) {
+  const riskStatus = profile.risk_status || 'HEALTHY';
+
+  return new EmbedBuilder()
+    .setTitle(`Risk: ${profile.client_name} (#${profile.channel_name})`)
+    .setColor(RISK_COLORS[riskStatus] ?? RISK_COLORS.HEALTHY)
+    .addFields(
+      { name: 'Risk status', value: riskStatus, inline: true },
+      { name: 'Churn risk', value: profile.churn_risk_level || 'low', inline: true },
+      { name: 'Inactivity', value: `${profile.inactivity_days ?? 0} days`, inline: true },
+      { name: 'Last sentiment', value: profile.last_sentiment || 'n/a', inline: true },
+      { name: 'Avg sentiment', value: profile.avg_sentiment_score != null ? Number(profile.avg_sentiment_score).toFixed(2) : 'n/a', inline: true },
+      { name: 'Open questions', value: String(profile.open_questions ?? 0), inline: true },
+    );
+}
+
+/**
+ * Build the highest churn risk clients embed
+ */
+export function buildTopRiskEmbed(clients: any[]) {
+  const embed = new EmbedBuilder()
+    .setTitle('Highest churn risk clients')
+    .setColor(RISK_COLORS.AT_RISK);
+
+  if (clients.length === 0) {
+    return embed.setDescription('No clients at risk 🎉');
+  }
+
+  return embed.setDescription(clients.map((c, idx) =>
+    `**${idx + 1}. ${c.client_name}** <#${c.channel_id}> • churn: ${c.churn_risk_level || 'low'} • radar: ${c.risk_status || 'n/a'} • inactive ${c.inactivity_days ?? 0}d`
+  ).join('\n'));
+}
@@ -0,0 +1,242 @@
+/**
+ * Team Roster
+ * Decides which Discord users are team members (CSMs) rather than clients
+ *
+ * Membership sources:
+ * - env:           TEAM_MEMBER_IDS (static list)
+ * - role:          Guild members holding one of TEAM_ROLE_IDS
+ * - support_agent: Active support_agents rows of type 'human'
+ *
+ * Every change is appended to team_roster_history so messages can be classified
+ * by the membership that applied when they were sent. The first sync of an empty
+ * history is recorded as a baseline that also applies to earlier messages.
+ */
+
+import type { Guild, GuildMember, PartialGuildMember } from 'discord.js';
+import { createLogger } from './logger';
+
+export type RosterSource = 'env' | 'role' | 'support_agent';
+
+interface RosterEvent {
+  source: RosterSource;
+  action: 'added' | 'removed';
+  isBaseline: boolean;
+  changedAt: number; // Unix seconds
+}
+
+const logger = createLogger('team_roster');
+
+export class TeamRoster {
+  private db: any;
+  private config: any;
+  // Current membership: user id -> sources that make them a team member
+  private members = new Map<string, Set<RosterSource>>();
+  // Membership changes per user, oldest first
+  private history = new Map<string, RosterEvent[]>();
+  private baselineRecorded = false;
+
+  constructor(tursoClient: any, config: any = {}) {
+    this.db = tursoClient;
+    this.config = {
+      staticMemberIds: config.staticMemberIds || [],
+      teamRoleIds: config.teamRoleIds || [],
+      debug: config.debug || false,
+      consoleOnly: config.consoleOnly || false,
+      ...config
+    };
+  }
+
+  log(level: string, message: string, data: any = null) {
+    if (level === 'DEBUG' && !this.config.debug) return;
+    logger.log(level, message, data);
+  }
+
+  get size() {
+    return this.members.size;
+  }
+
+  /**
+   * Is the user a team member right now
+   */
+  isTeamMember(userId: string) {
+    return this.members.has(userId);
+  }
+
+  /**
+   * Was the user a team member at the given time (unix seconds)
+   * Users without recorded history fall back to their current membership
+   */
+  wasTeamMemberAt(userId: string, at: number) {
+    const events = this.history.get(userId);
+    if (!events || events.length === 0) return this.isTeamMember(userId);
+
+    const sources = new Set<RosterSource>();
+    for (const source of ['env', 'role', 'support_agent'] as RosterSource[]) {
+      const sourceEvents = events.filter(e => e.source === source);
+      const lastBefore = [...sourceEvents].reverse().find(e => e.changedAt <= at);
+      // Baseline memberships also cover messages sent before tracking started
+      const effective = lastBefore || (sourceEvents[0]?.isBaseline ? sourceEvents[0] : null);
+      if (effective?.action === 'added') sources.add(source);
+    }
+
+    return sources.size > 0;
+  }
+
+  /**
+   * Load recorded history and rebuild the current membership from it
+   */
+  async load() {
+    if (this.config.consoleOnly) return;
+
+    try {
+      const result = await this.db.execute(
+        `SELECT user_id, source, action, is_baseline, changed_at FROM team_roster_history ORDER BY changed_at ASC, id ASC`
+      );
+
+      this.history.clear();
+      this.members.clear();
+      for (const row of result.rows) {
+        this.applyEvent(String(row.user_id), {
+          source: row.source as RosterSource,
+          action: row.action === 'removed' ? 'removed' : 'added',
+          isBaseline: Number(row.is_baseline) === 1,
+          changedAt: Number(row.changed_at),
+        });
+      }
+      this.baselineRecorded = result.rows.length > 0;
+
+      this.log('INFO', `Loaded roster history: ${this.members.size} current team members`);
+    } catch (error: any) {
+      this.log('ERROR', `Failed to load roster history: ${error.message}`);
+    }
+  }
+
+  /**
+   * Re-read every membership source and record the differences
+   */
+  async refresh(guilds: Iterable<Guild>) {
+    const desired = new Map<RosterSource, Map<string, string | null> | null>([
+      ['env', new Map(this.config.staticMemberIds.map((id: string) => [id, null] as [string, null]))],
+      ['role', await this.fetchRoleMembers(guilds)],
+      ['support_agent', await this.fetchSupportAgents()],
+    ]);
+
+    // A failed source keeps its current members instead of removing everyone
+    for (const [source, users] of desired) {
+      if (users === null) continue;
+      await this.syncSource(source, users);
+    }
+
+    this.baselineRecorded = true;
+    this.log('INFO', `Team roster refreshed: ${this.members.size} team members`);
+  }
+
+  /**
+   * Update role membership for a single member (GuildMemberUpdate / GuildMemberRemove)
+   */
+  async updateMember(member: GuildMember | PartialGuildMember, removed = false) {
+    if (this.config.teamRoleIds.length === 0) return;
+
+    const hasRole = !removed && member.roles.cache.some(role => this.config.teamRoleIds.includes(role.id));
+    const hadRole = this.members.get(member.id)?.has('role') ?? false;
+    if (hasRole === hadRole) return;
+
+    await this.recordChange(member.id, member.user?.username ?? null, 'role', hasRole ? 'added' : 'removed');
+  }
+
+  private async syncSource(source: RosterSource, users: Map<string, string | null>) {
+    for (const [userId, username] of users) {
+      if (!this.members.get(userId)?.has(source)) {
+        await this.recordChange(userId, username, source, 'added');
+      }
+    }
+
+    for (const [userId, sources] of [...this.members]) {
+      if (sources.has(source) && !users.has(userId)) {
+        await this.recordChange(userId, null, source, 'removed');
+      }
+    }
+  }
+
+  private async fetchRoleMembers(guilds: Iterable<Guild>): Promise<Map<string, string | null> | null> {
+    const users = new Map<string, string | null>();
+    if (this.config.teamRoleIds.length === 0) return users;
+
+    try {
+      for (const guild of guilds) {
+        const members = await guild.members.fetch();
+        for (const member of members.values()) {
+          if (member.user.bot) continue;
+          if (member.roles.cache.some(role => this.config.teamRoleIds.includes(role.id))) {
+            users.set(member.id, member.user.username);
+          }
+        }
+      }
+      return users;
+    } catch (error: any) {
+      this.log('ERROR', `Failed to fetch team role members: ${error.message}`);
+      return null;
+    }
+  }
+
+  private async fetchSupportAgents(): Promise<Map<string, string | null> | null> {
+    const users = new Map<string, string | null>();
+    if (this.config.consoleOnly) return users;
+
+    try {
+      const result = await this.db.execute(
+        `SELECT user_id, name FROM support_agents WHERE type = 'human' AND is_active = 1 AND user_id IS NOT NULL`
+      );
+      for (const row of result.rows) {
+        users.set(String(row.user_id), row.name ? String(row.name) : null);
+      }
+      return users;
+    } catch (error: any) {
+      this.log('ERROR', `Failed to fetch support agents: ${error.message}`);
+      return null;
+    }
+  }
+
+  private async recordChange(userId: string, username: string | null, source: RosterSource, action: 'added' | 'removed') {
+    const event: RosterEvent = {
+      source,
+      action,
+      isBaseline: !this.baselineRecorded,
+      changedAt: Math.floor(Date.now() / 1000),
+    };
+    this.applyEvent(userId, event);
+
+    this.log('INFO', `Team member ${username || userId} ${action} (${source})`, { userId, source, action, baseline: event.isBaseline });
+
+    if (this.config.consoleOnly) return;
+
+    try {
+      await this.db.execute({
+        sql: `INSERT INTO team_roster_history (user_id, username, source, action, is_baseline, changed_at)
+              VALUES (?, ?, ?, ?, ?, ?)`,
+        args: [userId, username, source, action, event.isBaseline ? 1 : 0, event.changedAt]
+      });
+    } catch (error: any) {
+      this.log('ERROR', `Failed to record roster change for ${userId}: ${error.message}`);
+    }
+  }
+
+  private applyEvent(userId: string, event: RosterEvent) {
+    const events = this.history.get(userId) || [];
+    events.push(event);
+    this.history.set(userId, events);
+
+    const sources = this.members.get(userId) || new Set<RosterSource>();
+    if (event.action === 'added') {
+      sources.add(event.source);
+    } else {
+      sources.delete(event.source);
+    }
+
+    if (sources.size > 0) {
+      this.members.set(userId, sources);
+    } else {
+      this.members.delete(userId);
+    }
+  }
+}
@@ -9,6 +9,8 @@
  * - Internal/External links
  */
 
+import { createLogger } from './logger';
+
 // URL detection regex (comprehensive)
 export const URL_REGEX = /https?:\/\/[^\s<>"{}|\\^`\[\]]*[^\s<>"{}|\\^`\[\].,:;!?()\-\]]/gi;
 
@@ -38,6 +40,8 @@ const URL_PATTERNS = {
   course: /(course|learn|training|class)/i,
 };
 
+const logger = createLogger('url_extractor');
+
 export class URLExtractor {
   private db: any;
   private config: any;
@@ -53,13 +57,7 @@ export class URLExtractor {
 
   log(level: string, message: string, data: any = null) {
     if (level === 'DEBUG' && !this.config.debug) return;
-    const timestamp = new Date().toISOString();
-    const prefix = `[${timestamp}] [URL_EXTRACTOR] [${level}]`;
-    if (data) {
-      console.log(`${prefix} ${message}`, data);
-    } else {
-      console.log(`${prefix} ${message}`);
-    }
+    logger.log(level, message, data);
   }
 
   /**
@@ -156,7 +154,7 @@ export class URLExtractor {
       const messageTimestamp = Math.floor(
         new Date(message.createdTimestamp || message.timestamp).getTime() / 1000
       );
-      const messageLink = `https://discord.com/channels/${message.guild?.id || message.guildId}/${channelId}/${message.id}`;
+      const messageLink = `https://discord.com/channels/${message.guild?.id || message.guildId}/${message.channelId || channelId}/${message.id}`;
 
       const senderId = message.author?.id || message.author_id;
       const senderUsername = message.author?.username || message.author_username;
@@ -221,7 +219,7 @@ export class URLExtractor {
       }
 
       if (trackedCount > 0) {
-        this.log('INFO', `🔗 Tracked ${trackedCount} URLs from ${senderUsername}`);
+        this.log('INFO', `Tracked ${trackedCount} URLs`, { sender: senderUsername, channelId });
       }
 
       return { tracked: trackedCount, urls: trackedUrls };
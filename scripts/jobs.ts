@@ -0,0 +1,95 @@
+/**
+ * Jobs CLI - inspect and replay enrichment jobs
+ *
+ * Usage:
+ *   npm run jobs -- stats                  Job counts per status
+ *   npm run jobs -- list [status] [limit]  List jobs (status: pending|running|completed|dead)
+ *   npm run jobs -- show <id>              Show a job with its payload and last error
+ *   npm run jobs -- replay <id> [id...]    Re-queue jobs with a fresh attempt budget
+ *   npm run jobs -- replay --dead          Re-queue every dead-lettered job
+ *   npm run jobs -- purge [days]           Delete completed jobs older than N days (default: 7)
+ *
+ * The running listener picks up replayed jobs on its next poll.
+ */
+
+import 'dotenv/config';
+import { tursoClient } from '../db';
+import { JobQueue, JobStatus } from '../lib/job-queue';
+
+const JOB_STATUSES: JobStatus[] = ['pending', 'running', 'completed', 'dead'];
+
+function formatTime(unixSeconds: number | null) {
+  return unixSeconds ? new Date(unixSeconds * 1000).toISOString() : '-';
+}
+
+async function main() {
+  const [command = 'stats', ...args] = process.argv.slice(2);
+  const queue = new JobQueue(tursoClient);
+
+  switch (command) {
+    case 'stats': {
+      const stats = await queue.getStats();
+      for (const status of JOB_STATUSES) {
+        console.log(`${status.padEnd(10)} ${stats[status] ?? 0}`);
+      }
+      break;
+    }
+
+    case 'list': {
+      const status = JOB_STATUSES.includes(args[0] as JobStatus) ? args[0] as JobStatus : null;
+      const limit = parseInt(status ? args[1] : args[0]) || 50;
+      const jobs = await queue.listJobs(status, limit);
+
+      if (jobs.length === 0) {
+        console.log('No jobs found');
+        break;
+      }
+      for (const job of jobs) {
+        const error = job.last_error ? `  ${job.last_error.substring(0, 80)}` : '';
+        console.log(`#${job.id}  ${job.type}  ${job.status}  attempts ${job.attempts}/${job.max_attempts}  run_at ${formatTime(job.run_at)}${error}`);
+      }
+      break;
+    }
+
+    case 'show': {
+      const job = await queue.getJob(parseInt(args[0]));
+      if (!job) {
+        console.error(`Job ${args[0]} not found`);
+        process.exitCode = 1;
+        break;
+      }
+      console.log(JSON.stringify({
+        ...job,
+        run_at: formatTime(job.run_at),
+        created_at: formatTime(job.created_at),
+        updated_at: formatTime(job.updated_at),
+        completed_at: formatTime(job.completed_at),
+      }, null, 2));
+      break;
+    }
+
+    case 'replay': {
+      const replayed = args[0] === '--dead'
+        ? await queue.replayDead()
+        : await queue.replay(args.map(id => parseInt(id)).filter(id => !isNaN(id)));
+      console.log(`Re-queued ${replayed} job(s)`);
+      break;
+    }
+
+    case 'purge': {
+      const days = parseInt(args[0]) || 7;
+      const purged = await queue.purgeCompleted(days);
+      console.log(`Deleted ${purged} completed job(s) older than ${days} days`);
+      break;
+    }
+
+    default:
+      console.error(`Unknown command: ${command} (expected stats, list, show, replay or purge)`);
+      process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});